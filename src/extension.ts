@@ -1,30 +1,173 @@
 import * as vscode from 'vscode';
-import { GitService } from './services/gitService';
-import { PromptGenerator } from './services/promptGenerator';
-import { TreeViewProvider } from './providers/treeViewProvider';
+import * as path from 'path';
+import { GitService, WORKING_TREE_REF, describeRef, isUncommittedRef } from './services/gitService';
+import { PromptGenerator, RepositoryReview } from './services/promptGenerator';
+import { parseFindings } from './services/findings';
+import { ChatEndpoint, streamChatCompletion } from './services/llmClient';
+import { breakdownPromptTokens } from './services/promptBreakdown';
+import { DEFAULT_HISTORY_LIMIT, PROMPT_FILE_EXTENSIONS, PromptHistory, getExportFileName } from './services/promptHistory';
+import { partitionFiles } from './services/promptSplitter';
+import { RedactionReport } from './services/redaction';
+import { ReviewComment, findingToComment, getReviewPathCandidates, matchReviewPath, parseReviewResponse } from './services/reviewResponseParser';
+import { Repository, RepositoryManager } from './services/repositoryManager';
+import { DIFF_OPTION_KEYS, ReviewOptionsState } from './services/reviewOptions';
+import { SessionStore } from './services/sessionStore';
+import { TreeViewProvider, getReviewSettings } from './providers/treeViewProvider';
 import { ProjectTreeProvider, ProjectFileNode } from './providers/projectTreeProvider';
 import { ConfigViewProvider } from './providers/configViewProvider';
 import { GitContentProvider } from './providers/gitContentProvider';
-import { ChangedFile } from './types';
+import { PromptHistoryNode, PromptHistoryProvider } from './providers/promptHistoryProvider';
+import { PromptPreviewProvider } from './providers/promptPreviewProvider';
+import { ReviewCommentsController } from './providers/reviewCommentsController';
+import { ReviewResponseDocument } from './providers/reviewResponseDocument';
+import { ChangedFile, FindingsFormat, PromptConfig, PromptFormat, PromptHistoryEntry, RedactionOptions, RepositorySnapshot, ReviewSession, TokenBudget, TokenizerModel } from './types';
+import { DEFAULT_TOKENIZER_MODEL, countTokens, formatTokens } from './utils/tokenEstimator';
 
-export function activate(context: vscode.ExtensionContext) {
-    console.log('AI Review: STARTING ACTIVATION');
+function getPromptFormat(options: ReviewOptionsState): PromptFormat {
+    return options.get('promptFormat', vscode.workspace.getConfiguration('aiReview').get<PromptFormat>('promptFormat', 'xml'));
+}
+
+// undefined, если контракт ответа не нужен ('none')
+function getFindingsFormat(): FindingsFormat | undefined {
+    const format = vscode.workspace.getConfiguration('aiReview').get<FindingsFormat | 'none'>('findingsFormat', 'none');
+    return format === 'none' ? undefined : format;
+}
+
+// undefined, если бюджет не задан (0)
+function getTokenBudget(options: ReviewOptionsState): TokenBudget | undefined {
+    const config = vscode.workspace.getConfiguration('aiReview');
+    const maxTokens = options.get('tokenBudget', config.get<number>('tokenBudget', 0));
+    return maxTokens > 0
+        ? { maxTokens, model: config.get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL) }
+        : undefined;
+}
+
+function getRedactionOptions(): RedactionOptions {
+    const config = vscode.workspace.getConfiguration('aiReview');
+    const denyPatterns = Object.entries(config.get<Record<string, boolean>>('denyPatterns') || {})
+        .filter(([_, isEnabled]) => isEnabled)
+        .map(([pattern]) => pattern);
+    return {
+        detectSecrets: config.get<boolean>('redactSecrets', true),
+        secretPatterns: config.get<Record<string, string>>('secretPatterns', {}),
+        denyPatterns
+    };
+}
+
+// Ключ API хранится в SecretStorage, а не в настройках
+const API_KEY_SECRET = 'aiReview.endpointApiKey';
+
+/**
+ * Настройки OpenAI-совместимого сервера; undefined (с подсказкой открыть настройки),
+ * если не заданы адрес или модель.
+ */
+async function getChatEndpoint(secrets: vscode.SecretStorage): Promise<ChatEndpoint | undefined> {
+    const config = vscode.workspace.getConfiguration('aiReview');
+    const baseUrl = config.get<string>('endpointBaseUrl', '').trim();
+    const model = config.get<string>('endpointModel', '').trim();
+    if (!baseUrl || !model) {
+        const action = 'Open Settings';
+        const choice = await vscode.window.showWarningMessage('Set aiReview.endpointBaseUrl and aiReview.endpointModel to run reviews', action);
+        if (choice === action) {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'aiReview.endpoint');
+        }
+        return undefined;
+    }
+    return {
+        baseUrl,
+        model,
+        apiKey: await secrets.get(API_KEY_SECRET),
+        temperature: config.get<number | null>('endpointTemperature', null) ?? undefined,
+        maxTokens: config.get<number>('endpointMaxTokens', 0) || undefined
+    };
+}
 
-    const workspaceRoot = (vscode.workspace.workspaceFolders && (vscode.workspace.workspaceFolders.length > 0))
-        ? vscode.workspace.workspaceFolders[0].uri.fsPath
-        : '';
+/**
+ * Показывает, что было скрыто из промпта, до того как он попадет в буфер обмена или уйдет на сервер.
+ * false, если пользователь отменил действие.
+ */
+async function confirmRedactions(report: RedactionReport, action = 'Copy Prompt'): Promise<boolean> {
+    if (report.isEmpty()) {
+        return true;
+    }
+    const redacted = report.getRedacted();
+    const summary: string[] = [];
+    if (report.blocked.length > 0) {
+        summary.push(`${report.blocked.length} files blocked by aiReview.denyPatterns`);
+    }
+    if (redacted.length > 0) {
+        summary.push(`secrets redacted in ${redacted.length} files`);
+    }
+    const choice = await vscode.window.showWarningMessage(
+        `AI Review: ${summary.join(', ')}.`,
+        { modal: true, detail: report.describe().join('\n') },
+        action
+    );
+    return choice === action;
+}
+
+export async function activate(context: vscode.ExtensionContext) {
+    console.log('AI Review: STARTING ACTIVATION');
 
-    if (!workspaceRoot) {
+    if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) {
         vscode.window.showErrorMessage('AI Review: No workspace folder open.');
         return;
     }
 
-    const gitService = new GitService(workspaceRoot);
+    const repositoryManager = new RepositoryManager();
+    await repositoryManager.discover();
+    const initialRepository = repositoryManager.getActive()!;
+
+    const gitService = initialRepository.gitService;
     const promptGenerator = new PromptGenerator(gitService);
     
-    const treeViewProvider = new TreeViewProvider(gitService, promptGenerator);
-    const projectTreeProvider = new ProjectTreeProvider(workspaceRoot);
-    const configViewProvider = new ConfigViewProvider(context.extensionUri, gitService);
+    // Формат, бюджет и контекст diff текущего ревью; сохраняются в сессию вместе с выбором
+    const reviewOptions = new ReviewOptionsState();
+    const treeViewProvider = new TreeViewProvider(gitService, promptGenerator, reviewOptions);
+    const projectTreeProvider = new ProjectTreeProvider(gitService);
+    const configViewProvider = new ConfigViewProvider(context.extensionUri, gitService, reviewOptions);
+
+    const pushRepositories = () => {
+        const repositories = repositoryManager.getRepositories();
+        configViewProvider.setRepositories(
+            repositories.map(r => ({ name: r.name, root: r.root })),
+            repositoryManager.getActive()?.root
+        );
+        void vscode.commands.executeCommand('setContext', 'aiReview.multipleRepositories', repositories.length > 1);
+    };
+    pushRepositories();
+
+    // Снимки выбора по репозиториям: восстанавливаются при возврате и используются в промпте по всем репозиториям
+    const snapshots = new Map<string, RepositorySnapshot>();
+    const takeSnapshot = (): RepositorySnapshot => ({
+        changes: treeViewProvider.getSnapshot(),
+        contextFiles: projectTreeProvider.getCheckedFiles(),
+        outlineFiles: projectTreeProvider.getOutlineFiles()
+    });
+
+    const showRepository = async (repository: Repository) => {
+        const snapshot = snapshots.get(repository.root);
+        promptGenerator.setGitService(repository.gitService);
+        projectTreeProvider.setGitService(repository.gitService, snapshot?.contextFiles, snapshot?.outlineFiles);
+        await treeViewProvider.setGitService(repository.gitService, snapshot?.changes);
+        configViewProvider.setGitService(repository.gitService, snapshot?.changes.targetBranch, snapshot?.changes.sourceBranch);
+    };
+
+    // Сессии ревью в workspaceState; пока сессия восстанавливается, текущий выбор не сохраняем
+    const sessionStore = new SessionStore(context.workspaceState);
+    let restoringSession = false;
+
+    context.subscriptions.push(
+        repositoryManager.onDidChangeRepositories(pushRepositories),
+        repositoryManager.onDidChangeActiveRepository(async ({ previous, current }) => {
+            if (previous && !restoringSession) {
+                snapshots.set(previous.root, takeSnapshot());
+            }
+            await showRepository(current);
+        }),
+        configViewProvider.onDidSelectRepository(root => repositoryManager.setActive(root)),
+        vscode.workspace.onDidChangeWorkspaceFolders(() => { void repositoryManager.discover(); })
+    );
 
     // Webview Provider
     context.subscriptions.push(
@@ -50,14 +193,163 @@ export function activate(context: vscode.ExtensionContext) {
     });
     context.subscriptions.push(projectTreeView);
 
+    // История промптов: метаданные в workspaceState, тексты файлами в хранилище экстеншена
+    const promptHistory = new PromptHistory(
+        context.workspaceState,
+        path.join((context.storageUri ?? context.globalStorageUri).fsPath, 'prompts'),
+        vscode.workspace.getConfiguration('aiReview').get<number>('promptHistoryLimit', DEFAULT_HISTORY_LIMIT)
+    );
+    const promptHistoryProvider = new PromptHistoryProvider(promptHistory);
+    context.subscriptions.push(
+        vscode.window.createTreeView('aiReview.historyView', { treeDataProvider: promptHistoryProvider }),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('aiReview.promptHistoryLimit')) {
+                promptHistory.setLimit(vscode.workspace.getConfiguration('aiReview').get<number>('promptHistoryLimit', DEFAULT_HISTORY_LIMIT));
+            }
+        })
+    );
+
+    // Ветки, разрешенные в SHA на момент генерации, чтобы промпт можно было воспроизвести
+    const describeReviews = (reviews: Array<{ name?: string; gitService: GitService; config: PromptConfig }>) => Promise.all(
+        reviews.map(async ({ name, gitService, config }) => {
+            const resolve = (ref: string) => isUncommittedRef(ref) ? Promise.resolve(undefined) : gitService.resolveCommit(ref);
+            return {
+                name,
+                sourceBranch: config.sourceBranch,
+                targetBranch: config.targetBranch,
+                sourceSha: await resolve(config.sourceBranch),
+                targetSha: await resolve(config.targetBranch),
+                mergeBase: config.mergeBase
+            };
+        })
+    );
+
+    // Скопированный промпт попадает в историю; ошибка записи не мешает копированию
+    const recordPrompt = async (
+        text: string,
+        reviews: Array<{ name?: string; gitService: GitService; config: PromptConfig }>,
+        format: PromptFormat = 'xml'
+    ): Promise<PromptHistoryEntry | undefined> => {
+        const prefix = (name: string | undefined, p: string) => name ? `${name}/${p}` : p;
+        try {
+            const model = vscode.workspace.getConfiguration('aiReview').get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL);
+            const entry = await promptHistory.add({
+                format,
+                instruction: reviews[0]?.config.instruction ?? '',
+                tokens: countTokens(text, model),
+                repositories: await describeReviews(reviews),
+                files: reviews.flatMap(r => r.config.files.map(f => prefix(r.name, f.path))),
+                contextFiles: reviews.flatMap(r => (r.config.contextFiles ?? []).map(p => prefix(r.name, p))),
+                part: reviews[0]?.config.part
+            }, text);
+            promptHistoryProvider.refresh();
+            return entry;
+        } catch (e) {
+            console.error('Failed to record prompt history:', e);
+            return undefined;
+        }
+    };
+    const activeReview = (config: PromptConfig) => [{ gitService: repositoryManager.getActive()?.gitService ?? gitService, config }];
+
+    // Промпт в папку aiReview.exportFolder (относительно корня репозитория)
+    const exportPromptFile = async (entry: Pick<PromptHistoryEntry, 'createdAt' | 'format' | 'repositories' | 'part'>, text: string) => {
+        const folder = vscode.workspace.getConfiguration('aiReview').get<string>('exportFolder', '.ai-review');
+        const root = repositoryManager.getActive()?.root ?? vscode.workspace.workspaceFolders![0].uri.fsPath;
+        const directory = vscode.Uri.file(path.resolve(root, folder));
+        const target = vscode.Uri.joinPath(directory, getExportFileName(entry));
+        await vscode.workspace.fs.createDirectory(directory);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(text, 'utf8'));
+
+        const action = await vscode.window.showInformationMessage(`Prompt exported to ${vscode.workspace.asRelativePath(target)}`, 'Open');
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    };
+
     const updateSelectionSummary = async () => {
         const changedTokens = treeViewProvider.getSelectedTokenTotal();
         const contextTokens = await projectTreeProvider.getSelectedTokenTotal();
         configViewProvider.updateSelectionSummary(changedTokens + contextTokens);
     };
 
-    treeViewProvider.onDidUpdateSelection(() => { void updateSelectionSummary(); }, null, context.subscriptions);
-    projectTreeProvider.onDidUpdateSelection(() => { void updateSelectionSummary(); }, null, context.subscriptions);
+    // Части промпта, которые еще не скопированы (Copy Prompt in Parts)
+    let promptParts: { configs: PromptConfig[]; next: number } | undefined;
+    const setPromptParts = (parts: typeof promptParts) => {
+        promptParts = parts && parts.next < parts.configs.length ? parts : undefined;
+        configViewProvider.updatePromptParts(promptParts && { next: promptParts.next + 1, total: promptParts.configs.length });
+    };
+
+    const collectSession = (name: string): Omit<ReviewSession, 'updatedAt'> => {
+        const active = repositoryManager.getActive()!;
+        snapshots.set(active.root, takeSnapshot());
+        return {
+            name,
+            activeRepository: active.root,
+            repositories: Object.fromEntries(snapshots),
+            instruction: treeViewProvider.instruction,
+            ...reviewOptions.getValues()
+        };
+    };
+
+    const applySession = async (session: ReviewSession) => {
+        restoringSession = true;
+        try {
+            snapshots.clear();
+            for (const [root, snapshot] of Object.entries(session.repositories)) {
+                snapshots.set(root, snapshot);
+            }
+            treeViewProvider.instruction = session.instruction;
+            configViewProvider.setInstruction(session.instruction);
+
+            reviewOptions.restore(session);
+            configViewProvider.refreshSettings();
+
+            // Репозиторий сессии мог исчезнуть из workspace, тогда остаемся в текущем
+            const active = repositoryManager.getActive()!;
+            const repository = (session.activeRepository && repositoryManager.getByRoot(session.activeRepository)) || active;
+            if (repository === active) {
+                await showRepository(active);
+            } else {
+                repositoryManager.setActive(repository.root);
+            }
+        } finally {
+            restoringSession = false;
+        }
+    };
+
+    // Активная сессия сохраняется сама, с небольшой задержкой, чтобы не писать на каждый чекбокс
+    let saveTimer: NodeJS.Timeout | undefined;
+    const saveActiveSession = () => {
+        clearTimeout(saveTimer);
+        saveTimer = undefined;
+        return sessionStore.save(collectSession(sessionStore.getActiveName()));
+    };
+    const scheduleSessionSave = () => {
+        if (restoringSession) return;
+        clearTimeout(saveTimer);
+        saveTimer = setTimeout(() => { void saveActiveSession(); }, 500);
+    };
+    context.subscriptions.push({
+        dispose: () => {
+            if (saveTimer) {
+                void saveActiveSession();
+            }
+        }
+    });
+
+    // После изменения выбора разбиение устарело
+    const onSelectionChanged = () => {
+        setPromptParts(undefined);
+        void updateSelectionSummary();
+        scheduleSessionSave();
+    };
+    treeViewProvider.onDidUpdateSelection(onSelectionChanged, null, context.subscriptions);
+    treeViewProvider.onDidLoadFiles(() => {
+        if (vscode.workspace.getConfiguration('aiReview').get<boolean>('includeTestCounterparts', true)) {
+            projectTreeProvider.checkFiles(treeViewProvider.getTestCounterparts());
+        }
+    }, null, context.subscriptions);
+    projectTreeProvider.onDidUpdateSelection(onSelectionChanged, null, context.subscriptions);
     void updateSelectionSummary();
 
     // Events
@@ -68,6 +360,13 @@ export function activate(context: vscode.ExtensionContext) {
                 config.sourceBranch,
                 config.instruction
             );
+            scheduleSessionSave();
+        }),
+        configViewProvider.onDidChangeReviewOptions(key => {
+            if (DIFF_OPTION_KEYS.includes(key)) {
+                treeViewProvider.reloadDiffOptions();
+            }
+            scheduleSessionSave();
         })
     );
 
@@ -75,6 +374,7 @@ export function activate(context: vscode.ExtensionContext) {
         treeViewProvider.onDidChangeTreeData(() => {
             const changedFiles = treeViewProvider.getChangedFiles();
             projectTreeProvider.updateChangedFiles(changedFiles);
+            treeView.description = treeViewProvider.getReviewLabel();
         })
     );
 
@@ -99,6 +399,7 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.selectBranches', () => treeViewProvider.selectBranches()));
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.selectTargetBranch', () => treeViewProvider.selectTargetBranch()));
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.selectSourceBranch', () => treeViewProvider.selectSourceBranch()));
+    context.subscriptions.push(vscode.commands.registerCommand('aiReview.selectCommits', () => treeViewProvider.selectCommitRange()));
     
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.changed.selectAll', () => treeViewProvider.setAllChecked(true)));
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.changed.deselectAll', () => treeViewProvider.setAllChecked(false)));
@@ -106,60 +407,686 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.context.selectAll', () => projectTreeProvider.setAllChecked(true)));
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.context.deselectAll', () => projectTreeProvider.setAllChecked(false)));
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.context.addSuggested', async () => {
+            if (!projectTreeProvider.hasSuggestions()) {
+                vscode.window.showInformationMessage('No suggested context files. Load changes in TypeScript or JavaScript files first');
+                return;
+            }
+
+            // По умолчанию предлагаем то, что осталось от бюджета токенов
+            const budget = getTokenBudget(reviewOptions);
+            const selected = treeViewProvider.getSelectedTokenTotal() + await projectTreeProvider.getSelectedTokenTotal();
+            const remaining = budget ? budget.maxTokens - selected : 0;
+            const input = await vscode.window.showInputBox({
+                title: 'Add Suggested Context Files',
+                prompt: 'Add suggested files, closest first, within this many tokens',
+                value: String(remaining > 0 ? remaining : 8000),
+                validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number'
+            });
+            if (!input) return;
+
+            const added = projectTreeProvider.addSuggestionsWithinTokens(Number(input));
+            const tokens = added.reduce((sum, s) => sum + s.tokens, 0);
+            vscode.window.showInformationMessage(added.length > 0
+                ? `Added ${added.length} suggested files (${formatTokens(tokens)} tokens)`
+                : 'No unchecked suggested files fit into the limit');
+        }),
+        vscode.commands.registerCommand('aiReview.context.useOutline', (node: ProjectFileNode) => projectTreeProvider.setOutline(node.relativePath, true)),
+        vscode.commands.registerCommand('aiReview.context.useFullContent', (node: ProjectFileNode) => projectTreeProvider.setOutline(node.relativePath, false))
+    );
+
+    // Конфиг промпта по выбору в активном репозитории; undefined, если выбирать не из чего
+    const getPromptConfig = (): PromptConfig | undefined => {
+        if (!treeViewProvider.sourceBranch || !treeViewProvider.targetBranch) {
+            vscode.window.showWarningMessage('Please select branches first');
+            return undefined;
+        }
+
+        const changedFiles = treeViewProvider.getCheckedFiles();
+        const contextFiles = projectTreeProvider.getCheckedFiles();
+
+        if (changedFiles.length === 0 && contextFiles.length === 0) {
+            vscode.window.showWarningMessage('No files selected for review');
+            return undefined;
+        }
+
+        return {
+            files: changedFiles,
+            contextFiles: contextFiles,
+            outlineFiles: projectTreeProvider.getOutlineFiles(),
+            sourceBranch: treeViewProvider.sourceBranch,
+            targetBranch: treeViewProvider.targetBranch,
+            mergeBase: treeViewProvider.mergeBase,
+            commits: treeViewProvider.commits,
+            diffOptions: treeViewProvider.diffOptions,
+            selectedHunks: treeViewProvider.getSelectedHunks(),
+            omitPartialContent: treeViewProvider.omitPartialContent,
+            testPairingRules: treeViewProvider.testPairingRules,
+            contentLimits: treeViewProvider.contentLimits,
+            redaction: getRedactionOptions(),
+            findingsFormat: getFindingsFormat(),
+            instruction: treeViewProvider.instruction,
+            format: getPromptFormat(reviewOptions)
+        };
+    };
+
     context.subscriptions.push(
         vscode.commands.registerCommand('aiReview.copyPrompt', async () => {
-            if (!treeViewProvider.sourceBranch || !treeViewProvider.targetBranch) {
-                vscode.window.showWarningMessage('Please select branches first');
+            const config = getPromptConfig();
+            if (!config) return;
+
+            try {
+                const report = new RedactionReport();
+                const prompt = await promptGenerator.generate(config, report);
+                if (!await confirmRedactions(report)) return;
+
+                await vscode.env.clipboard.writeText(prompt);
+                void recordPrompt(prompt, activeReview(config), config.format);
+                vscode.window.showInformationMessage(`Prompt copied! (${config.files.length} changes, ${config.contextFiles?.length ?? 0} context files)`);
+            } catch (e: any) {
+                vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.copyPromptFitToBudget', async () => {
+            const config = getPromptConfig();
+            if (!config) return;
+
+            const budget = getTokenBudget(reviewOptions);
+            if (!budget) {
+                vscode.window.showWarningMessage('Set a Token Budget to fit the prompt to a budget');
                 return;
             }
 
-            const changedFiles = treeViewProvider.getCheckedFiles();
-            const contextFiles = projectTreeProvider.getCheckedFiles();
+            try {
+                const report = new RedactionReport();
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: 'AI Review: Fitting prompt to token budget' },
+                    () => promptGenerator.generateWithinBudget(config, budget, report)
+                );
+                if (!await confirmRedactions(report)) return;
+
+                await vscode.env.clipboard.writeText(result.text);
+                void recordPrompt(result.text, activeReview(config), config.format);
+                const summary = `${formatTokens(result.tokens)} of ${formatTokens(budget.maxTokens)} tokens, ${result.omissions.length} omissions`;
+                if (result.withinBudget) {
+                    vscode.window.showInformationMessage(`Prompt copied! (${summary})`);
+                } else {
+                    vscode.window.showWarningMessage(`Prompt copied, but it still exceeds the budget (${summary}). Deselect some files.`);
+                }
+            } catch (e: any) {
+                vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
+            }
+        })
+    );
+
+    // Превью промпта с разбивкой токенов; копирование и сохранение — кнопками в заголовке редактора
+    const promptPreviewProvider = new PromptPreviewProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(PromptPreviewProvider.scheme, promptPreviewProvider)
+    );
+
+    const previewPrompt = async () => {
+        const config = getPromptConfig();
+        if (!config) return;
+
+        try {
+            const report = new RedactionReport();
+            const { text, document } = await promptGenerator.generatePreview(config, report);
+            const model = vscode.workspace.getConfiguration('aiReview').get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL);
+            await promptPreviewProvider.show({
+                config,
+                text,
+                format: config.format ?? 'xml',
+                breakdown: breakdownPromptTokens(document, text, t => countTokens(t, model)),
+                model,
+                report
+            });
+        } catch (e: any) {
+            vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.previewPrompt', previewPrompt),
+        vscode.commands.registerCommand('aiReview.preview.regenerate', previewPrompt),
+        vscode.commands.registerCommand('aiReview.preview.copy', async () => {
+            const preview = promptPreviewProvider.getCurrent();
+            if (!preview) return;
+            if (!await confirmRedactions(preview.report)) return;
+
+            await vscode.env.clipboard.writeText(preview.text);
+            void recordPrompt(preview.text, activeReview(preview.config), preview.format);
+            vscode.window.showInformationMessage(`Prompt copied! (${formatTokens(preview.breakdown.total)} tokens)`);
+        }),
+        vscode.commands.registerCommand('aiReview.preview.save', async () => {
+            const preview = promptPreviewProvider.getCurrent();
+            if (!preview) return;
+            if (!await confirmRedactions(preview.report, 'Save Prompt')) return;
+
+            const extension = PROMPT_FILE_EXTENSIONS[preview.format];
+            const root = repositoryManager.getActive()?.root ?? vscode.workspace.workspaceFolders![0].uri.fsPath;
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.file(path.join(root, `prompt.${extension}`)),
+                filters: { Prompt: [extension] }
+            });
+            if (!target) return;
+
+            await vscode.workspace.fs.writeFile(target, Buffer.from(preview.text, 'utf8'));
+            vscode.window.showInformationMessage(`Prompt saved to ${vscode.workspace.asRelativePath(target)}`);
+        })
+    );
+
+    // Экспорт текущего выбора в aiReview.exportFolder, минуя буфер обмена
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.exportPrompt', async () => {
+            const config = getPromptConfig();
+            if (!config) return;
+
+            try {
+                const report = new RedactionReport();
+                const prompt = await promptGenerator.generate(config, report);
+                if (!await confirmRedactions(report, 'Export Prompt')) return;
+
+                // Если записать историю не удалось, имя файла строим из того же конфига
+                const entry = await recordPrompt(prompt, activeReview(config), config.format) ?? {
+                    createdAt: Date.now(),
+                    format: config.format ?? 'xml',
+                    repositories: await describeReviews(activeReview(config)),
+                    part: config.part
+                };
+                await exportPromptFile(entry, prompt);
+            } catch (e: any) {
+                vscode.window.showErrorMessage('Error exporting prompt: ' + e.message);
+            }
+        })
+    );
+
+    // Ревью без копирования: промпт уходит на OpenAI-совместимый сервер, ответ стримится в новый документ
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.runReview', async () => {
+            const config = getPromptConfig();
+            if (!config) return;
+            const endpoint = await getChatEndpoint(context.secrets);
+            if (!endpoint) return;
+
+            let response: ReviewResponseDocument | undefined;
+            try {
+                const report = new RedactionReport();
+                const prompt = await promptGenerator.generate(config, report);
+                if (!await confirmRedactions(report, 'Send Prompt')) return;
+                void recordPrompt(prompt, activeReview(config), config.format);
+
+                response = await ReviewResponseDocument.open(`<!-- AI Review: ${endpoint.model} (${endpoint.baseUrl}) -->\n\n`);
+                const controller = new AbortController();
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `AI Review: Waiting for ${endpoint.model}`, cancellable: true },
+                    (_progress, token) => {
+                        token.onCancellationRequested(() => controller.abort());
+                        return streamChatCompletion(endpoint, prompt, delta => response!.append(delta), controller.signal);
+                    }
+                );
+
+                if (result.cancelled) {
+                    await response.close('\n\n<!-- Cancelled -->\n');
+                } else if (result.finishReason === 'length') {
+                    await response.close('\n\n<!-- Truncated: aiReview.endpointMaxTokens reached -->\n');
+                    vscode.window.showWarningMessage('The review was cut off by the max tokens limit');
+                } else {
+                    await response.close('\n');
+                }
+            } catch (e: any) {
+                await response?.close(`\n\n<!-- Error: ${e.message} -->\n`);
+                vscode.window.showErrorMessage('Error running review: ' + e.message);
+            }
+        }),
+        vscode.commands.registerCommand('aiReview.setApiKey', async () => {
+            const apiKey = await vscode.window.showInputBox({
+                prompt: 'API key for aiReview.endpointBaseUrl (leave empty to remove)',
+                password: true,
+                ignoreFocusOut: true
+            });
+            if (apiKey === undefined) return;
+
+            if (apiKey.trim()) {
+                await context.secrets.store(API_KEY_SECRET, apiKey.trim());
+                vscode.window.showInformationMessage('API key saved');
+            } else {
+                await context.secrets.delete(API_KEY_SECRET);
+                vscode.window.showInformationMessage('API key removed');
+            }
+        })
+    );
+
+    // Текст записи истории; если файл удалили вручную, запись убирается из истории
+    const readHistoryText = async (entry: PromptHistoryEntry): Promise<string | undefined> => {
+        const text = await promptHistory.readText(entry);
+        if (text === undefined) {
+            await promptHistory.delete(entry.id);
+            promptHistoryProvider.refresh();
+            vscode.window.showWarningMessage('The prompt text is no longer available and was removed from history');
+        }
+        return text;
+    };
 
-            if (changedFiles.length === 0 && contextFiles.length === 0) {
-                vscode.window.showWarningMessage('No files selected for review');
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.history.open', async (node: PromptHistoryNode) => {
+            if (await readHistoryText(node.entry) === undefined) return;
+            await vscode.window.showTextDocument(vscode.Uri.file(promptHistory.getTextPath(node.entry)), { preview: true });
+        }),
+        vscode.commands.registerCommand('aiReview.history.copy', async (node: PromptHistoryNode) => {
+            const text = await readHistoryText(node.entry);
+            if (text === undefined) return;
+            await vscode.env.clipboard.writeText(text);
+            vscode.window.showInformationMessage(`Prompt copied! (${formatTokens(node.entry.tokens)} tokens)`);
+        }),
+        vscode.commands.registerCommand('aiReview.history.compare', async (node: PromptHistoryNode) => {
+            const others = promptHistory.list().filter(e => e.id !== node.entry.id);
+            if (others.length === 0) {
+                vscode.window.showInformationMessage('There is no other prompt in history to compare with');
                 return;
             }
+            const picked = await vscode.window.showQuickPick(
+                others.map(e => ({ label: new Date(e.createdAt).toLocaleString(), description: new PromptHistoryNode(e).description as string, entry: e })),
+                { placeHolder: 'Compare with...' }
+            );
+            if (!picked) return;
+            if (await readHistoryText(node.entry) === undefined || await readHistoryText(picked.entry) === undefined) return;
 
+            // Слева более старый промпт
+            const [older, newer] = [node.entry, picked.entry].sort((a, b) => a.createdAt - b.createdAt);
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                vscode.Uri.file(promptHistory.getTextPath(older)),
+                vscode.Uri.file(promptHistory.getTextPath(newer)),
+                `Prompt ${new Date(older.createdAt).toLocaleString()} ↔ ${new Date(newer.createdAt).toLocaleString()}`
+            );
+        }),
+        vscode.commands.registerCommand('aiReview.history.export', async (node: PromptHistoryNode) => {
+            const text = await readHistoryText(node.entry);
+            if (text === undefined) return;
             try {
-                const prompt = await promptGenerator.generate({
-                    files: changedFiles,
-                    contextFiles: contextFiles,
-                    sourceBranch: treeViewProvider.sourceBranch,
-                    targetBranch: treeViewProvider.targetBranch,
-                    instruction: treeViewProvider.instruction
+                await exportPromptFile(node.entry, text);
+            } catch (e: any) {
+                vscode.window.showErrorMessage('Error exporting prompt: ' + e.message);
+            }
+        }),
+        vscode.commands.registerCommand('aiReview.history.delete', async (node: PromptHistoryNode) => {
+            await promptHistory.delete(node.entry.id);
+            promptHistoryProvider.refresh();
+        }),
+        vscode.commands.registerCommand('aiReview.history.clear', async () => {
+            const action = 'Clear';
+            const choice = await vscode.window.showWarningMessage('Delete all prompts from history?', { modal: true }, action);
+            if (choice !== action) return;
+            await promptHistory.clear();
+            promptHistoryProvider.refresh();
+        })
+    );
+
+    const copyNextPromptPart = async () => {
+        if (!promptParts) {
+            vscode.window.showWarningMessage('No prompt parts left. Run "Copy Prompt in Parts" first');
+            return;
+        }
+
+        const { configs, next } = promptParts;
+        try {
+            const report = new RedactionReport();
+            const prompt = await promptGenerator.generate(configs[next], report);
+            if (!await confirmRedactions(report)) return;
+            await vscode.env.clipboard.writeText(prompt);
+            void recordPrompt(prompt, activeReview(configs[next]), configs[next].format);
+        } catch (e: any) {
+            vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
+            return;
+        }
+        setPromptParts({ configs, next: next + 1 });
+
+        const copied = `Part ${next + 1} of ${configs.length} copied! (${configs[next].files.length} changes)`;
+        if (!promptParts) {
+            vscode.window.showInformationMessage(copied);
+            return;
+        }
+        const action = `Copy Part ${next + 2}`;
+        if (await vscode.window.showInformationMessage(copied, action) === action) {
+            await copyNextPromptPart();
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.copyPromptInParts', async () => {
+            const config = getPromptConfig();
+            if (!config) return;
+
+            let maxTokens = getTokenBudget(reviewOptions)?.maxTokens;
+            if (!maxTokens) {
+                const input = await vscode.window.showInputBox({
+                    title: 'Copy Prompt in Parts',
+                    prompt: 'Maximum tokens per prompt',
+                    value: '32000',
+                    validateInput: value => Number(value) > 0 ? undefined : 'Enter a positive number'
+                });
+                if (!input) return;
+                maxTokens = Number(input);
+            }
+
+            try {
+                const contextFiles = config.contextFiles ?? [];
+                const structurePaths = [...config.files.map(f => f.path), ...contextFiles];
+
+                // Инструкция и структура директорий повторяются в каждой части, их размер вычитаем из лимита
+                const skeleton = await promptGenerator.generate({
+                    ...config, files: [], contextFiles: [], structurePaths, part: { index: 1, total: 1 }
                 });
+                const model = vscode.workspace.getConfiguration('aiReview').get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL);
+                const available = maxTokens - countTokens(skeleton, model);
+                if (available <= 0) {
+                    vscode.window.showWarningMessage('The instruction and directory structure alone exceed the token limit');
+                    return;
+                }
 
+                const parts = partitionFiles(config.files, f => treeViewProvider.getFileTokenCount(f.path), {
+                    maxTokens: available,
+                    firstPartReserved: await projectTreeProvider.getSelectedTokenTotal()
+                });
+                const configs = parts.map((files, i): PromptConfig => ({
+                    ...config,
+                    files,
+                    contextFiles: i === 0 ? contextFiles : [],
+                    structurePaths,
+                    part: { index: i + 1, total: parts.length }
+                }));
+
+                setPromptParts({ configs, next: 0 });
+                await copyNextPromptPart();
+            } catch (e: any) {
+                vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
+            }
+        }),
+        vscode.commands.registerCommand('aiReview.copyNextPromptPart', copyNextPromptPart)
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.copyPromptAllRepositories', async () => {
+            const active = repositoryManager.getActive();
+            if (active) {
+                snapshots.set(active.root, takeSnapshot());
+            }
+
+            const reviews: RepositoryReview[] = [];
+            for (const repository of repositoryManager.getRepositories()) {
+                const snapshot = snapshots.get(repository.root);
+                const changes = snapshot?.changes;
+                if (!snapshot || !changes?.sourceBranch || !changes.targetBranch) continue;
+
+                const files = changes.changedFiles.filter(f => changes.checkedPaths.includes(f.path));
+                if (files.length === 0 && snapshot.contextFiles.length === 0) continue;
+
+                reviews.push({
+                    name: repository.name,
+                    gitService: repository.gitService,
+                    config: {
+                        files,
+                        contextFiles: snapshot.contextFiles,
+                        outlineFiles: snapshot.outlineFiles,
+                        sourceBranch: changes.sourceBranch,
+                        targetBranch: changes.targetBranch,
+                        mergeBase: changes.mergeBase,
+                        commits: changes.commits,
+                        selectedHunks: changes.selectedHunks,
+                        ...getReviewSettings(repository.root, reviewOptions),
+                        redaction: getRedactionOptions(),
+                        findingsFormat: getFindingsFormat(),
+                        instruction: treeViewProvider.instruction
+                    }
+                });
+            }
+
+            if (reviews.length === 0) {
+                vscode.window.showWarningMessage('No files selected for review in any repository');
+                return;
+            }
+
+            try {
+                const report = new RedactionReport();
+                const prompt = await promptGenerator.generateForRepositories(reviews, treeViewProvider.instruction, getPromptFormat(reviewOptions), report);
+                if (!await confirmRedactions(report)) return;
                 await vscode.env.clipboard.writeText(prompt);
-                vscode.window.showInformationMessage(`Prompt copied! (${changedFiles.length} changes, ${contextFiles.length} context files)`);
+                void recordPrompt(prompt, reviews, getPromptFormat(reviewOptions));
+                vscode.window.showInformationMessage(`Prompt copied! (${reviews.map(r => r.name).join(', ')})`);
             } catch (e: any) {
                 vscode.window.showErrorMessage('Error generating prompt: ' + e.message);
             }
         })
     );
 
-    context.subscriptions.push(vscode.commands.registerCommand('aiReview.setInstruction', () => treeViewProvider.setInstruction()));
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.selectRepository', async () => {
+            const active = repositoryManager.getActive();
+            const picked = await vscode.window.showQuickPick(
+                repositoryManager.getRepositories().map(r => ({
+                    label: r.name,
+                    description: r.root === active?.root ? 'Active' : undefined,
+                    detail: r.root,
+                    root: r.root
+                })),
+                { placeHolder: 'Select repository to review', title: 'Repository' }
+            );
+            if (picked) {
+                repositoryManager.setActive(picked.root);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.setInstruction', async () => {
+            await treeViewProvider.setInstruction();
+            configViewProvider.setInstruction(treeViewProvider.instruction);
+            scheduleSessionSave();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.saveSession', async () => {
+            const name = await vscode.window.showInputBox({
+                title: 'Save Review Session',
+                prompt: 'Session name',
+                value: treeViewProvider.sourceBranch ? describeRef(treeViewProvider.sourceBranch) : sessionStore.getActiveName(),
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            });
+            if (!name) return;
+
+            const existing = sessionStore.get(name.trim());
+            if (existing && existing.name !== sessionStore.getActiveName()) {
+                const confirmed = await vscode.window.showWarningMessage(`Overwrite review session "${existing.name}"?`, { modal: true }, 'Overwrite');
+                if (confirmed !== 'Overwrite') return;
+            }
+
+            await sessionStore.save(collectSession(name.trim()));
+            await sessionStore.setActive(name.trim());
+            vscode.window.showInformationMessage(`Review session "${name.trim()}" saved`);
+        }),
+        vscode.commands.registerCommand('aiReview.switchSession', async () => {
+            const activeName = sessionStore.getActiveName();
+            const picked = await vscode.window.showQuickPick(
+                sessionStore.list().map(session => ({
+                    label: session.name,
+                    description: session.name === activeName ? 'Active' : undefined,
+                    detail: describeSession(session),
+                    session
+                })),
+                { placeHolder: 'Select review session to restore', title: 'Review Session' }
+            );
+            if (!picked || picked.session.name === activeName) return;
+
+            // Текущую сессию сохраняем как есть, чтобы к ней можно было вернуться
+            await saveActiveSession();
+            await sessionStore.setActive(picked.session.name);
+            await applySession(picked.session);
+        }),
+        vscode.commands.registerCommand('aiReview.deleteSession', async () => {
+            const picked = await vscode.window.showQuickPick(
+                sessionStore.list().map(session => ({ label: session.name, detail: describeSession(session), session })),
+                { placeHolder: 'Select review session to delete', title: 'Delete Review Session' }
+            );
+            if (!picked) return;
+
+            const confirmed = await vscode.window.showWarningMessage(`Delete review session "${picked.label}"?`, { modal: true }, 'Delete');
+            if (confirmed !== 'Delete') return;
+            // Выбор в панелях остается и дальше сохраняется в сессию по умолчанию
+            await sessionStore.delete(picked.label);
+        })
+    );
+
+    // Восстанавливаем сессию, с которой работали до перезагрузки окна
+    const lastSession = sessionStore.get(sessionStore.getActiveName());
+    if (lastSession) {
+        await applySession(lastSession);
+    }
 
     context.subscriptions.push(
         vscode.commands.registerCommand('aiReview.refresh', () => {
             treeViewProvider.refresh();
-            projectTreeProvider.refresh();
+            projectTreeProvider.reload();
         })
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('aiReview.openDiff', async (file: ChangedFile, source: string, target: string) => {
-            const leftUri = vscode.Uri.parse(`ai-review://git/${file.path}?ref=${target}`);
-            const rightUri = vscode.Uri.parse(`ai-review://git/${file.path}?ref=${source}`);
-            const title = `${file.path} (${target} ↔ ${source})`;
+        vscode.commands.registerCommand('aiReview.openDiff', async (file: ChangedFile, source: string, target: string, mergeBase?: string) => {
+            // В режиме merge-base слева показываем общего предка, а не вершину target
+            // Для переименований и копий слева открываем старый путь
+            const repoRoot = repositoryManager.getActive()!.root;
+            const repoQuery = `repo=${encodeURIComponent(repoRoot)}`;
+            const leftUri = vscode.Uri.parse(`ai-review://git/${file.oldPath ?? file.path}?ref=${mergeBase ?? target}&${repoQuery}`);
+            // Рабочее дерево открываем как обычный файл, чтобы его можно было править прямо в diff
+            const rightUri = source === WORKING_TREE_REF
+                ? vscode.Uri.file(path.join(repoRoot, file.path))
+                : vscode.Uri.parse(`ai-review://git/${file.path}?ref=${source}&${repoQuery}`);
+            const leftLabel = mergeBase ? `${describeRef(target)} @ ${mergeBase.substring(0, 7)}` : describeRef(target);
+            const fileLabel = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+            const title = `${fileLabel} (${leftLabel} ↔ ${describeRef(source)})`;
             await vscode.commands.executeCommand('vscode.diff', leftUri, rightUri, title);
         })
     );
 
+    // Замечания из ответа модели — треды Comments API на строках файлов
+    const reviewComments = new ReviewCommentsController();
+    context.subscriptions.push(reviewComments);
+
+    const resolveReviewComment = async (comment: ReviewComment): Promise<vscode.Uri | undefined> => {
+        const active = repositoryManager.getActive()!;
+        // В промпте по нескольким репозиториям пути начинаются с имени репозитория
+        const repositories = repositoryManager.getRepositories();
+        const named = repositories.length > 1 ? repositories.find(r => comment.path.startsWith(`${r.name}/`)) : undefined;
+        const repository = named ?? active;
+        const reference = named ? comment.path.substring(named.name.length + 1) : comment.path;
+
+        // Измененный файл открываем в той версии, которую видела модель: source ветка, для удаленных — target
+        const source = treeViewProvider.sourceBranch;
+        const target = treeViewProvider.mergeBase ?? treeViewProvider.targetBranch;
+        if (repository === active && source && target) {
+            const changedFiles = treeViewProvider.getChangedFiles();
+            const changedPath = matchReviewPath(reference, changedFiles.map(f => f.path));
+            const file = changedFiles.find(f => f.path === changedPath);
+            if (file) {
+                const repoQuery = `repo=${encodeURIComponent(repository.root)}`;
+                if (file.status === 'D') {
+                    return vscode.Uri.parse(`ai-review://git/${file.path}?ref=${target}&${repoQuery}`);
+                }
+                return source === WORKING_TREE_REF
+                    ? vscode.Uri.file(path.join(repository.root, file.path))
+                    : vscode.Uri.parse(`ai-review://git/${file.path}?ref=${source}&${repoQuery}`);
+            }
+        }
+
+        // Остальные ссылки (дополнительные файлы и прочее) — на файлы workspace, если они есть
+        for (const candidate of getReviewPathCandidates(reference)) {
+            const uri = vscode.Uri.file(path.join(repository.root, candidate));
+            try {
+                if ((await vscode.workspace.fs.stat(uri)).type === vscode.FileType.File) {
+                    return uri;
+                }
+            } catch {
+                // Нет такого файла — пробуем следующий вариант пути
+            }
+        }
+        return undefined;
+    };
+
+    // Markdown документ со списком для уведомлений с кнопкой Show
+    const showDetails = async (content: string) => {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+        await vscode.window.showTextDocument(document, { preview: true });
+    };
+
+    const importReviewResponse = async (text: string) => {
+        // Ответ по схеме findings (aiReview.findingsFormat) проверяется по схеме, иначе разбирается как свободный текст
+        const findings = parseFindings(text);
+        const comments = findings.findings.length > 0 ? findings.findings.map(findingToComment) : parseReviewResponse(text);
+        if (findings.findings.length > 0 && findings.violations.length > 0) {
+            const action = 'Show';
+            void vscode.window.showWarningMessage(
+                `${findings.violations.length} schema violations in the review findings`,
+                action
+            ).then(choice => {
+                if (choice === action) {
+                    void showDetails(findings.violations.map(v => `- \`${v.path || 'response'}\`: ${v.message}`).join('\n'));
+                }
+            });
+        }
+        if (comments.length === 0) {
+            vscode.window.showWarningMessage('No file or line references found in the review response');
+            return;
+        }
+
+        const { placed, unmapped } = await reviewComments.import(comments, resolveReviewComment);
+        if (unmapped.length === 0) {
+            vscode.window.showInformationMessage(`Added ${placed} review comments`);
+            return;
+        }
+
+        // Ссылки на несуществующие файлы не теряем: показываем их отдельным документом
+        const action = 'Show';
+        const choice = await vscode.window.showWarningMessage(
+            `Added ${placed} review comments, ${unmapped.length} could not be mapped to files`,
+            action
+        );
+        if (choice === action) {
+            await showDetails(unmapped.map(c => `### ${c.path}${c.line ? `:${c.line}` : ''}\n\n${c.body}`).join('\n\n'));
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('aiReview.pasteReviewResponse', async () => {
+            const text = await vscode.env.clipboard.readText();
+            if (!text.trim()) {
+                vscode.window.showWarningMessage('The clipboard is empty. Copy the review response first.');
+                return;
+            }
+            await importReviewResponse(text);
+        }),
+        // Из ответа Run Review или любого открытого документа; выделенный фрагмент, если он есть
+        vscode.commands.registerCommand('aiReview.importReviewResponse', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showWarningMessage('Open the review response in an editor first');
+                return;
+            }
+            const text = editor.document.getText(editor.selection.isEmpty ? undefined : editor.selection);
+            await importReviewResponse(text);
+        }),
+        vscode.commands.registerCommand('aiReview.comments.resolve', (thread: vscode.CommentThread) => reviewComments.removeThread(thread)),
+        vscode.commands.registerCommand('aiReview.comments.clear', () => reviewComments.clear())
+    );
+
     context.subscriptions.push(vscode.commands.registerCommand('aiReview.focus', () => vscode.commands.executeCommand('aiReview.view.focus')));
 
     // Git Provider
-    const gitContentProvider = new GitContentProvider(gitService);
+    const gitContentProvider = new GitContentProvider(repositoryManager);
     context.subscriptions.push(
         vscode.workspace.registerTextDocumentContentProvider('ai-review', gitContentProvider)
     );
@@ -167,4 +1094,20 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('AI Review: Activation complete');
 }
 
+// Ветки и число отмеченных файлов сессии для Quick Pick
+function describeSession(session: ReviewSession): string {
+    const parts: string[] = [];
+    for (const { changes, contextFiles } of Object.values(session.repositories)) {
+        if (changes.sourceBranch && changes.targetBranch) {
+            parts.push(`${describeRef(changes.targetBranch)} ← ${describeRef(changes.sourceBranch)}`);
+        }
+        const files = changes.checkedPaths.length + contextFiles.length;
+        if (files > 0) {
+            parts.push(`${files} files`);
+        }
+    }
+    parts.push(new Date(session.updatedAt).toLocaleString());
+    return parts.join(' · ');
+}
+
 export function deactivate() {}
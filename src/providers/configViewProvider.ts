@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
-import { GitService } from '../services/gitService';
+import { GitService, WORKING_TREE_REF, INDEX_REF, describeRef, isUncommittedRef } from '../services/gitService';
+import { DiffAlgorithm, FindingsFormat, PromptFormat, ReviewOptions, TokenizerModel } from '../types';
+import { getInstructionTemplates, TEMPLATE_VARIABLES } from '../services/instructionTemplates';
+import { ReviewOptionsState, isReviewOption } from '../services/reviewOptions';
+import { DEFAULT_TOKENIZER_MODEL } from '../utils/tokenEstimator';
 
 export class ConfigViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'aiReview.configView';
@@ -9,14 +13,37 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
     private _sourceBranch?: string;
     private _instruction: string = 'Review changes.';
     private _pendingSelectionTotal: number = 0;
+    private _promptParts?: PromptPartsState;
+    private _repositories: RepositoryOption[] = [];
+    private _activeRepository?: string;
 
     private _onDidChangeConfig = new vscode.EventEmitter<ConfigData>();
     readonly onDidChangeConfig = this._onDidChangeConfig.event;
+    private _onDidSelectRepository = new vscode.EventEmitter<string>();
+    readonly onDidSelectRepository = this._onDidSelectRepository.event;
+    private _onDidChangeReviewOptions = new vscode.EventEmitter<keyof ReviewOptions>();
+    readonly onDidChangeReviewOptions = this._onDidChangeReviewOptions.event;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private gitService: GitService
-    ) {}
+        private gitService: GitService,
+        private readonly reviewOptions: ReviewOptionsState
+    ) {
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('aiReview.promptFormat')
+                || e.affectsConfiguration('aiReview.findingsFormat')
+                || e.affectsConfiguration('aiReview.tokenizerModel')
+                || e.affectsConfiguration('aiReview.tokenBudget')
+                || e.affectsConfiguration('aiReview.diffContextLines')
+                || e.affectsConfiguration('aiReview.diffFunctionContext')
+                || e.affectsConfiguration('aiReview.diffAlgorithm')) {
+                this.sendCurrentConfig();
+            }
+            if (e.affectsConfiguration('aiReview.instructionTemplates')) {
+                this.pushTemplates();
+            }
+        });
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -35,23 +62,72 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.onDidReceiveMessage(async (data) => {
             switch (data.type) {
                 case 'getInitialState': {
+                    this.pushRepositories();
                     this.loadBranches();
                     this.sendCurrentConfig();
+                    this.pushTemplates();
+                    this.pushSelection();
+                    break;
+                }
+                case 'saveTemplate': {
+                    await this.saveTemplate(data.name, data.text);
+                    break;
+                }
+                case 'deleteTemplate': {
+                    await this.deleteTemplate(data.name);
+                    break;
+                }
+                case 'selectRepository': {
+                    this._onDidSelectRepository.fire(data.value);
                     break;
                 }
                 case 'configChanged': {
-                    this._targetBranch = data.value.targetBranch;
-                    this._sourceBranch = data.value.sourceBranch;
+                    // Передаем только изменившиеся ветки, чтобы правка инструкции не сбрасывала
+                    // выбор, сделанный через Quick Pick (например, диапазон коммитов)
+                    const targetChanged = data.value.targetBranch !== this._targetBranch;
+                    const sourceChanged = data.value.sourceBranch !== this._sourceBranch;
+                    if (targetChanged && !await this.validateRef('targetBranch', data.value.targetBranch, this._targetBranch)) break;
+                    if (sourceChanged && !await this.validateRef('sourceBranch', data.value.sourceBranch, this._sourceBranch)) break;
+
+                    const changed: ConfigData = { instruction: data.value.instruction };
+                    if (targetChanged) {
+                        changed.targetBranch = data.value.targetBranch;
+                        this._targetBranch = data.value.targetBranch;
+                    }
+                    if (sourceChanged) {
+                        changed.sourceBranch = data.value.sourceBranch;
+                        this._sourceBranch = data.value.sourceBranch;
+                    }
+
                     this._instruction = data.value.instruction;
 
-                    this._onDidChangeConfig.fire({
-                        targetBranch: this._targetBranch,
-                        sourceBranch: this._sourceBranch,
-                        instruction: this._instruction
-                    });
+                    this._onDidChangeConfig.fire(changed);
+                    break;
+                }
+                case 'fitToBudget': {
+                    await vscode.commands.executeCommand('aiReview.copyPromptFitToBudget');
+                    break;
+                }
+                case 'previewPrompt': {
+                    await vscode.commands.executeCommand('aiReview.previewPrompt');
+                    break;
+                }
+                case 'copyInParts': {
+                    await vscode.commands.executeCommand('aiReview.copyPromptInParts');
+                    break;
+                }
+                case 'copyNextPart': {
+                    await vscode.commands.executeCommand('aiReview.copyNextPromptPart');
                     break;
                 }
-                case 'savePatterns': {
+                case 'savePatterns':
+                case 'saveSetting': {
+                    // Параметры ревью остаются в сессии и не меняют настройки других workspace
+                    if (isReviewOption(data.key)) {
+                        this.reviewOptions.set(data.key, data.value);
+                        this._onDidChangeReviewOptions.fire(data.key);
+                        break;
+                    }
                     const config = vscode.workspace.getConfiguration('aiReview');
                     await config.update(data.key, data.value, vscode.ConfigurationTarget.Global);
                     break;
@@ -60,20 +136,136 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
         });
 
         this.pushSelectionSummary();
+        this.pushPromptParts();
+    }
+
+    public setRepositories(repositories: RepositoryOption[], activeRoot?: string) {
+        this._repositories = repositories;
+        this._activeRepository = activeRoot;
+        this.pushRepositories();
+    }
+
+    /**
+     * Переключает панель на другой репозиторий: списки веток, паттерны и выбранные ветки
+     * берутся из него.
+     */
+    public setGitService(gitService: GitService, targetBranch?: string, sourceBranch?: string) {
+        this.gitService = gitService;
+        this._activeRepository = gitService.getWorkspaceRoot();
+        this._targetBranch = targetBranch;
+        this._sourceBranch = sourceBranch;
+
+        this.pushRepositories();
+        this.loadBranches();
+        this.sendCurrentConfig();
+        this.pushSelection();
+    }
+
+    // Инструкция из восстановленной сессии или введенная через команду Set Instruction
+    public setInstruction(instruction: string) {
+        this._instruction = instruction;
+        this.pushSelection();
+    }
+
+    private pushSelection() {
+        this._view?.webview.postMessage({
+            type: 'setSelection',
+            targetBranch: this._targetBranch,
+            sourceBranch: this._sourceBranch,
+            instruction: this._instruction
+        });
+    }
+
+    private getUserTemplates(): Record<string, string> {
+        return vscode.workspace.getConfiguration('aiReview').get<Record<string, string>>('instructionTemplates') || {};
+    }
+
+    private pushTemplates() {
+        this._view?.webview.postMessage({
+            type: 'setTemplates',
+            templates: getInstructionTemplates(this.getUserTemplates()),
+            variables: TEMPLATE_VARIABLES
+        });
+    }
+
+    /**
+     * Сохраняет текст инструкции как шаблон пользователя. Для встроенного шаблона это
+     * переопределение под тем же именем; без выбранного шаблона спрашиваем имя.
+     */
+    private async saveTemplate(name: string | undefined, text: string) {
+        const templateName = name || await vscode.window.showInputBox({
+            title: 'Save Instruction Template',
+            prompt: 'Template name',
+            validateInput: value => value.trim() ? undefined : 'Enter a name'
+        });
+        if (!templateName) {
+            return;
+        }
+        const templates = { ...this.getUserTemplates(), [templateName.trim()]: text };
+        await vscode.workspace.getConfiguration('aiReview').update('instructionTemplates', templates, vscode.ConfigurationTarget.Global);
+        this._view?.webview.postMessage({ type: 'selectTemplate', name: templateName.trim() });
+    }
+
+    private async deleteTemplate(name: string) {
+        const templates = { ...this.getUserTemplates() };
+        if (!(name in templates)) {
+            return;
+        }
+        const confirmed = await vscode.window.showWarningMessage(`Delete instruction template "${name}"?`, { modal: true }, 'Delete');
+        if (confirmed !== 'Delete') {
+            return;
+        }
+        delete templates[name];
+        await vscode.workspace.getConfiguration('aiReview').update('instructionTemplates', templates, vscode.ConfigurationTarget.Global);
+    }
+
+    private pushRepositories() {
+        this._view?.webview.postMessage({
+            type: 'setRepositories',
+            value: this._repositories,
+            active: this._activeRepository
+        });
+    }
+
+    /**
+     * Вручную введенный ref проверяем через git rev-parse. Если он не существует,
+     * webview возвращает поле к предыдущему значению и показывает ошибку.
+     */
+    private async validateRef(field: 'targetBranch' | 'sourceBranch', ref: string, previous?: string): Promise<boolean> {
+        if (!ref || ref === 'HEAD' || isUncommittedRef(ref) || await this.gitService.resolveCommit(ref)) {
+            return true;
+        }
+        this._view?.webview.postMessage({
+            type: 'refError',
+            field,
+            message: `Unknown ref: ${ref}`,
+            previous: previous ?? ''
+        });
+        return false;
     }
 
     private async loadBranches() {
         try {
-            const branches = await this.gitService.getBranches();
-            this._view?.webview.postMessage({ type: 'setBranches', value: branches });
+            const refs = await this.gitService.getRefs();
+            this._view?.webview.postMessage({
+                type: 'setRefs',
+                value: refs,
+                extraTargets: [{ value: 'HEAD', label: 'HEAD' }],
+                extraSources: [WORKING_TREE_REF, INDEX_REF].map(ref => ({ value: ref, label: describeRef(ref) }))
+            });
             this.pushSelectionSummary();
         } catch (error: any) {
             console.error('Failed to load branches:', error);
         }
     }
 
+    // Параметры ревью поменялись не из панели, например восстановлена сессия
+    public refreshSettings() {
+        this.sendCurrentConfig();
+    }
+
     private sendCurrentConfig() {
-        const config = vscode.workspace.getConfiguration('aiReview');
+        const config = vscode.workspace.getConfiguration('aiReview', vscode.Uri.file(this.gitService.getWorkspaceRoot()));
         const ignorePatterns = config.get<Record<string, boolean>>('ignorePatterns') || {};
         const diffIgnorePatterns = config.get<Record<string, boolean>>('diffIgnorePatterns') || {};
 
@@ -82,6 +274,16 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
             ignorePatterns,
             diffIgnorePatterns
         });
+        this._view?.webview.postMessage({
+            type: 'setSettings',
+            promptFormat: this.reviewOptions.get('promptFormat', config.get<PromptFormat>('promptFormat', 'xml')),
+            findingsFormat: config.get<FindingsFormat | 'none'>('findingsFormat', 'none'),
+            tokenizerModel: config.get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL),
+            tokenBudget: this.reviewOptions.get('tokenBudget', config.get<number>('tokenBudget', 0)),
+            diffContextLines: this.reviewOptions.get('diffContextLines', config.get<number>('diffContextLines', 3)),
+            diffFunctionContext: this.reviewOptions.get('diffFunctionContext', config.get<boolean>('diffFunctionContext', false)),
+            diffAlgorithm: this.reviewOptions.get('diffAlgorithm', config.get<DiffAlgorithm>('diffAlgorithm', 'default'))
+        });
     }
 
     public getConfig(): ConfigData {
@@ -97,6 +299,18 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
         this.pushSelectionSummary();
     }
 
+    /**
+     * Следующая некопированная часть промпта; undefined, если частей нет или все скопированы.
+     */
+    public updatePromptParts(parts?: PromptPartsState) {
+        this._promptParts = parts;
+        this.pushPromptParts();
+    }
+
+    private pushPromptParts() {
+        this._view?.webview.postMessage({ type: 'promptParts', value: this._promptParts });
+    }
+
     private pushSelectionSummary() {
         if (this._view) {
             this._view.webview.postMessage({ type: 'selectionSummary', totalTokens: this._pendingSelectionTotal });
@@ -111,6 +325,8 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
             // The native checkmark path
             check: `<svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor"><path d="M14.431 3.323l-8.47 10-.79-.036-3.35-4.77.818-.574 2.978 4.24 8.051-9.506.764.646z"/></svg>`,
             close: `<svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor"><path d="M8 7.293l3.646-3.647.708.708L8.707 8l3.647 3.646-.708.708L8 8.707l-3.646 3.647-.708-.708L7.293 8 3.646 4.354l.708-.708L8 7.293z"/></svg>`,
+            save: `<svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor"><path d="M13.353 1.146l1.5 1.5L15 3v11.5l-.5.5h-13l-.5-.5v-13l.5-.5H13l.353.146zM2 2v12h12V3.208L12.793 2H11v4H4V2H2zm6 0v3h2V2H8z"/></svg>`,
+            trash: `<svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor"><path d="M10 3h3v1h-1v9l-1 1H4l-1-1V4H2V3h3V2a1 1 0 0 1 1-1h3a1 1 0 0 1 1 1v1zM9 2H6v1h3V2zM4 13h7V4H4v9zm2-8H5v7h1V5zm1 0h1v7H7V5zm2 0h1v7H9V5z"/></svg>`,
             add: `<svg width="16" height="16" viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg" fill="currentColor"><path d="M14 7v1H9v5H8V8H3V7h5V2h1v5h5z"/></svg>`
         };
 
@@ -165,7 +381,7 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                     opacity: 0.8;
                 }
 
-                select, textarea {
+                select, textarea, input.ref-input {
                     width: 100%;
                     box-sizing: border-box;
                     background-color: var(--input-bg);
@@ -178,11 +394,25 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                     border-radius: 2px;
                 }
 
-                select:focus, textarea:focus {
+                select:focus, textarea:focus, input.ref-input:focus {
                     outline: 1px solid var(--focus-border);
                     border-color: var(--focus-border);
                 }
 
+                input.ref-input.invalid {
+                    border-color: var(--vscode-inputValidation-errorBorder);
+                }
+
+                .ref-error {
+                    font-size: 12px;
+                    margin: -2px 0 6px 0;
+                    color: var(--vscode-errorForeground);
+                }
+
+                .ref-error:empty {
+                    display: none;
+                }
+
                 /* HEADERS */
                 details {
                     width: 100%;
@@ -373,22 +603,138 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                     font-style: italic;
                 }
 
+                .template-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 2px;
+                    margin-bottom: 6px;
+                }
+
+                .template-row select {
+                    flex: 1;
+                    margin-bottom: 0;
+                }
+
+                .variables-hint {
+                    font-size: 11px;
+                    margin: -2px 0 6px 0;
+                    color: var(--vscode-descriptionForeground);
+                    word-break: break-word;
+                }
+
+                .diff-options {
+                    display: flex;
+                    gap: 6px;
+                }
+
+                .diff-options input.ref-input {
+                    width: 64px;
+                    flex-shrink: 0;
+                }
+
+                .option-row {
+                    display: flex;
+                    align-items: center;
+                    font-size: 13px;
+                    margin-bottom: 6px;
+                    cursor: pointer;
+                }
+
                 .token-summary {
                     font-size: 12px;
                     margin-top: 4px;
                     color: var(--vscode-descriptionForeground);
                 }
+
+                .token-summary.over-budget {
+                    color: var(--vscode-editorWarning-foreground);
+                }
+
+                .token-summary button {
+                    background: none;
+                    border: none;
+                    padding: 0;
+                    margin-left: 6px;
+                    font: inherit;
+                    color: var(--vscode-textLink-foreground);
+                    cursor: pointer;
+                }
+
+                .token-summary button:first-child {
+                    margin-left: 0;
+                }
+
+                .token-summary button:hover {
+                    text-decoration: underline;
+                }
             </style>
         </head>
         <body>
             <div class="form-container">
+                <div id="repositoryRow" style="display:none">
+                    <span class="section-label">Repository</span>
+                    <select id="repository"></select>
+                </div>
                 <span class="section-label">Target Branch</span>
-                <select id="targetBranch"><option>Loading...</option></select>
+                <input id="targetBranch" class="ref-input" list="targetRefs" placeholder="Branch, tag or SHA" autocomplete="off" spellcheck="false">
+                <datalist id="targetRefs"></datalist>
+                <div class="ref-error" id="targetBranchError"></div>
                 <span class="section-label">Source Branch</span>
-                <select id="sourceBranch"><option>Loading...</option></select>
+                <input id="sourceBranch" class="ref-input" list="sourceRefs" placeholder="Branch, tag or SHA" autocomplete="off" spellcheck="false">
+                <datalist id="sourceRefs"></datalist>
+                <div class="ref-error" id="sourceBranchError"></div>
                 <span class="section-label">Review Instruction</span>
+                <div class="template-row">
+                    <select id="instructionTemplate" title="Instruction template"><option value="">Custom instruction</option></select>
+                    <button id="saveTemplateBtn" class="icon-btn" title="Save as template">${icons.save}</button>
+                    <button id="deleteTemplateBtn" class="icon-btn" title="Delete template" style="display:none">${icons.trash}</button>
+                </div>
                 <textarea id="instruction" rows="3" placeholder="Enter instructions..."></textarea>
-                <div class="token-summary">Selected tokens: <span id="selectedTokens">0</span></div>
+                <div class="variables-hint" id="variablesHint"></div>
+                <span class="section-label">Prompt Format</span>
+                <select id="promptFormat">
+                    <option value="xml">XML</option>
+                    <option value="markdown">Markdown</option>
+                    <option value="json">JSON</option>
+                </select>
+                <span class="section-label">Response Format</span>
+                <select id="findingsFormat" title="Response format requested from the model">
+                    <option value="none">Free text</option>
+                    <option value="json">JSON findings</option>
+                    <option value="xml">XML findings</option>
+                </select>
+                <span class="section-label">Diff Context</span>
+                <div class="diff-options">
+                    <input id="diffContextLines" class="ref-input" type="number" min="0" title="Lines of context around each change">
+                    <select id="diffAlgorithm" title="Diff algorithm">
+                        <option value="default">Default algorithm</option>
+                        <option value="myers">Myers</option>
+                        <option value="minimal">Minimal</option>
+                        <option value="patience">Patience</option>
+                        <option value="histogram">Histogram</option>
+                    </select>
+                </div>
+                <label class="option-row">
+                    <input type="checkbox" id="diffFunctionContext" class="custom-checkbox">
+                    Whole function as context
+                </label>
+                <span class="section-label">Tokenizer</span>
+                <select id="tokenizerModel">
+                    <option value="gpt-4o">GPT-4o / o1 / o3 (o200k_base)</option>
+                    <option value="gpt-4">GPT-4 / GPT-3.5 (cl100k_base)</option>
+                    <option value="approximate">Approximate (4 chars per token)</option>
+                </select>
+                <span class="section-label">Token Budget</span>
+                <input id="tokenBudget" class="ref-input" type="number" min="0" step="1000" placeholder="0 = no limit">
+                <div class="token-summary" id="tokenSummary">
+                    Selected tokens: <span id="selectedTokens">0</span><span id="budgetLimit"></span>
+                    <button id="fitToBudgetBtn" title="Copy a prompt that fits the budget by omitting content, diff context and supplementary files" style="display:none">Fit to budget</button>
+                </div>
+                <div class="token-summary">
+                    <button id="previewPromptBtn" title="Open the prompt with a per-section token breakdown before copying">Preview</button>
+                    <button id="copyInPartsBtn" title="Split the selected files into several prompts under the token budget">Copy in parts</button>
+                    <button id="copyNextPartBtn" style="display:none"></button>
+                </div>
             </div>
 
             <details>
@@ -428,10 +774,31 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
             <script>
                 const vscode = acquireVsCodeApi();
                 const els = {
+                    repository: document.getElementById('repository'),
+                    repositoryRow: document.getElementById('repositoryRow'),
                     target: document.getElementById('targetBranch'),
                     source: document.getElementById('sourceBranch'),
+                    targetRefs: document.getElementById('targetRefs'),
+                    sourceRefs: document.getElementById('sourceRefs'),
                     instruction: document.getElementById('instruction'),
+                    instructionTemplate: document.getElementById('instructionTemplate'),
+                    saveTemplateBtn: document.getElementById('saveTemplateBtn'),
+                    deleteTemplateBtn: document.getElementById('deleteTemplateBtn'),
+                    variablesHint: document.getElementById('variablesHint'),
+                    promptFormat: document.getElementById('promptFormat'),
+                    findingsFormat: document.getElementById('findingsFormat'),
+                    tokenizerModel: document.getElementById('tokenizerModel'),
+                    diffContextLines: document.getElementById('diffContextLines'),
+                    diffAlgorithm: document.getElementById('diffAlgorithm'),
+                    diffFunctionContext: document.getElementById('diffFunctionContext'),
                     selectedTokens: document.getElementById('selectedTokens'),
+                    tokenBudget: document.getElementById('tokenBudget'),
+                    tokenSummary: document.getElementById('tokenSummary'),
+                    budgetLimit: document.getElementById('budgetLimit'),
+                    fitToBudgetBtn: document.getElementById('fitToBudgetBtn'),
+                    previewPromptBtn: document.getElementById('previewPromptBtn'),
+                    copyInPartsBtn: document.getElementById('copyInPartsBtn'),
+                    copyNextPartBtn: document.getElementById('copyNextPartBtn'),
                     ignoreList: document.getElementById('ignoreList'),
                     diffList: document.getElementById('diffList'),
                     newIgnore: document.getElementById('newIgnore'),
@@ -444,6 +811,14 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                     targetBranch: '',
                     sourceBranch: '',
                     instruction: '',
+                    instructionTemplate: '',
+                    promptFormat: 'xml',
+                    findingsFormat: 'none',
+                    tokenizerModel: 'gpt-4o',
+                    tokenBudget: 0,
+                    diffContextLines: 3,
+                    diffAlgorithm: 'default',
+                    diffFunctionContext: false,
                     ignorePatterns: {},
                     diffIgnorePatterns: {},
                     selectedTokens: 0
@@ -462,9 +837,32 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                     vscode.setState(state);
                 }
 
+                // Псевдо-ссылки (Working Tree, Index) показываются по имени, а в extension уходит их значение
+                let refAliases = {};
+
+                function toRefValue(text) {
+                    const trimmed = text.trim();
+                    return refAliases[trimmed] || trimmed;
+                }
+
+                function toRefLabel(value) {
+                    const alias = Object.keys(refAliases).find(label => refAliases[label] === value);
+                    return alias || value;
+                }
+
+                function escapeAttr(value) {
+                    return String(value).replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+                }
+
+                function setRefError(field, message) {
+                    const input = field === 'targetBranch' ? els.target : els.source;
+                    input.classList.toggle('invalid', !!message);
+                    document.getElementById(field + 'Error').textContent = message || '';
+                }
+
                 function notifyConfig() {
-                    state.targetBranch = els.target.value;
-                    state.sourceBranch = els.source.value;
+                    state.targetBranch = toRefValue(els.target.value);
+                    state.sourceBranch = toRefValue(els.source.value);
                     state.instruction = els.instruction.value;
                     saveState();
                     vscode.postMessage({ type: 'configChanged', value: state });
@@ -472,8 +870,76 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
 
                 els.target.onchange = notifyConfig;
                 els.source.onchange = notifyConfig;
+                els.target.oninput = () => setRefError('targetBranch', '');
+                els.source.oninput = () => setRefError('sourceBranch', '');
                 els.instruction.oninput = notifyConfig;
 
+                let templates = [];
+
+                els.instructionTemplate.onchange = () => {
+                    state.instructionTemplate = els.instructionTemplate.value;
+                    const template = templates.find(t => t.name === state.instructionTemplate);
+                    if (template) {
+                        els.instruction.value = template.text;
+                        notifyConfig();
+                    } else {
+                        saveState();
+                    }
+                    renderTemplates();
+                };
+                els.saveTemplateBtn.onclick = () => vscode.postMessage({
+                    type: 'saveTemplate',
+                    name: state.instructionTemplate,
+                    text: els.instruction.value
+                });
+                els.deleteTemplateBtn.onclick = () => vscode.postMessage({ type: 'deleteTemplate', name: state.instructionTemplate });
+
+                function renderTemplates() {
+                    const options = templates.map(t =>
+                        '<option value="'+escapeAttr(t.name)+'">'+escapeAttr(t.name)+(t.builtin ? '' : ' (custom)')+'</option>'
+                    );
+                    els.instructionTemplate.innerHTML = '<option value="">Custom instruction</option>' + options.join('');
+                    const selected = templates.find(t => t.name === state.instructionTemplate);
+                    els.instructionTemplate.value = selected ? selected.name : '';
+                    // Удалить можно только свой шаблон; для переопределенного встроенного вернется исходный
+                    els.deleteTemplateBtn.style.display = selected && !selected.builtin ? 'flex' : 'none';
+                }
+                els.promptFormat.onchange = () => {
+                    state.promptFormat = els.promptFormat.value;
+                    saveState();
+                    vscode.postMessage({ type: 'saveSetting', key: 'promptFormat', value: state.promptFormat });
+                };
+                els.findingsFormat.onchange = () => {
+                    state.findingsFormat = els.findingsFormat.value;
+                    saveState();
+                    vscode.postMessage({ type: 'saveSetting', key: 'findingsFormat', value: state.findingsFormat });
+                };
+                els.tokenizerModel.onchange = () => {
+                    state.tokenizerModel = els.tokenizerModel.value;
+                    saveState();
+                    vscode.postMessage({ type: 'saveSetting', key: 'tokenizerModel', value: state.tokenizerModel });
+                };
+                els.tokenBudget.onchange = () => {
+                    state.tokenBudget = Math.max(0, Math.floor(Number(els.tokenBudget.value) || 0));
+                    saveState();
+                    render();
+                    vscode.postMessage({ type: 'saveSetting', key: 'tokenBudget', value: state.tokenBudget });
+                };
+                function saveSetting(key, value) {
+                    state[key] = value;
+                    saveState();
+                    vscode.postMessage({ type: 'saveSetting', key, value });
+                }
+
+                els.diffContextLines.onchange = () => saveSetting('diffContextLines', Math.max(0, Math.floor(Number(els.diffContextLines.value) || 0)));
+                els.diffAlgorithm.onchange = () => saveSetting('diffAlgorithm', els.diffAlgorithm.value);
+                els.diffFunctionContext.onchange = () => saveSetting('diffFunctionContext', els.diffFunctionContext.checked);
+                els.fitToBudgetBtn.onclick = () => vscode.postMessage({ type: 'fitToBudget' });
+                els.previewPromptBtn.onclick = () => vscode.postMessage({ type: 'previewPrompt' });
+                els.copyInPartsBtn.onclick = () => vscode.postMessage({ type: 'copyInParts' });
+                els.copyNextPartBtn.onclick = () => vscode.postMessage({ type: 'copyNextPart' });
+                els.repository.onchange = () => vscode.postMessage({ type: 'selectRepository', value: els.repository.value });
+
                 function togglePattern(keyName, pattern, checked) {
                     state[keyName][pattern] = checked;
                     saveState();
@@ -549,13 +1015,32 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
                 }
 
                 function render() {
-                    if (state.targetBranch && els.target.innerHTML.includes(state.targetBranch)) els.target.value = state.targetBranch;
-                    if (state.sourceBranch && els.source.innerHTML.includes(state.sourceBranch)) els.source.value = state.sourceBranch;
+                    els.target.value = toRefLabel(state.targetBranch);
+                    els.source.value = toRefLabel(state.sourceBranch);
                     els.instruction.value = state.instruction;
+                    els.promptFormat.value = state.promptFormat;
+                    els.findingsFormat.value = state.findingsFormat;
+                    els.tokenizerModel.value = state.tokenizerModel;
+                    els.diffContextLines.value = String(state.diffContextLines);
+                    els.diffAlgorithm.value = state.diffAlgorithm;
+                    els.diffFunctionContext.checked = state.diffFunctionContext;
                     els.selectedTokens.textContent = formatTokens(state.selectedTokens);
+                    renderBudget();
                     renderLists();
                 }
 
+                // Выбранные файлы больше бюджета: подсвечиваем сводку и предлагаем подогнать промпт
+                function renderBudget() {
+                    const budget = state.tokenBudget || 0;
+                    const overBudget = budget > 0 && state.selectedTokens > budget;
+                    if (document.activeElement !== els.tokenBudget) {
+                        els.tokenBudget.value = budget > 0 ? String(budget) : '';
+                    }
+                    els.budgetLimit.textContent = budget > 0 ? ' / ' + formatTokens(budget) : '';
+                    els.tokenSummary.classList.toggle('over-budget', overBudget);
+                    els.fitToBudgetBtn.style.display = overBudget ? 'inline' : 'none';
+                }
+
                 function formatTokens(count) {
                     if (count >= 1000) {
                         const shortened = Math.round((count / 1000) * 10) / 10;
@@ -566,17 +1051,67 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
 
                 window.addEventListener('message', event => {
                     const msg = event.data;
-                    if (msg.type === 'setBranches') {
-                        const opts = '<option value="">Select...</option>' + 
-                            msg.value.map(b => '<option value="'+b+'">'+b+'</option>').join('');
-                        els.target.innerHTML = opts;
-                        els.source.innerHTML = opts;
+                    if (msg.type === 'setRefs') {
+                        // datalist не поддерживает optgroup, поэтому группа выводится в label опции
+                        const toOption = (value, group) => '<option value="'+escapeAttr(value)+'" label="'+group+'"></option>';
+                        const refOpts =
+                            msg.value.local.map(r => toOption(r, 'Local branch')).join('') +
+                            msg.value.remote.map(r => toOption(r, 'Remote branch')).join('') +
+                            msg.value.tags.map(r => toOption(r, 'Tag')).join('');
+
+                        refAliases = {};
+                        [...msg.extraTargets, ...msg.extraSources].forEach(o => { refAliases[o.label] = o.value; });
+
+                        els.targetRefs.innerHTML = msg.extraTargets.map(o => toOption(o.label, 'Current')).join('') + refOpts;
+                        els.sourceRefs.innerHTML = msg.extraSources.map(o => toOption(o.label, 'Uncommitted')).join('') + refOpts;
+                        render();
+                    } else if (msg.type === 'setRepositories') {
+                        els.repository.innerHTML = msg.value
+                            .map(r => '<option value="'+escapeAttr(r.root)+'" title="'+escapeAttr(r.root)+'">'+escapeAttr(r.name)+'</option>')
+                            .join('');
+                        if (msg.active) els.repository.value = msg.active;
+                        // Выбор репозитория нужен только в multi-root workspace или при вложенных репозиториях
+                        els.repositoryRow.style.display = msg.value.length > 1 ? 'block' : 'none';
+                    } else if (msg.type === 'setSelection') {
+                        state.targetBranch = msg.targetBranch || '';
+                        state.sourceBranch = msg.sourceBranch || '';
+                        state.instruction = msg.instruction ?? state.instruction;
+                        setRefError('targetBranch', '');
+                        setRefError('sourceBranch', '');
+                        saveState();
+                        render();
+                    } else if (msg.type === 'refError') {
+                        state[msg.field] = msg.previous;
+                        saveState();
                         render();
+                        setRefError(msg.field, msg.message);
                     } else if (msg.type === 'setPatterns') {
                         state.ignorePatterns = msg.ignorePatterns || {};
                         state.diffIgnorePatterns = msg.diffIgnorePatterns || {};
                         saveState();
                         render();
+                    } else if (msg.type === 'setSettings') {
+                        state.promptFormat = msg.promptFormat || 'xml';
+                        state.findingsFormat = msg.findingsFormat || 'none';
+                        state.tokenizerModel = msg.tokenizerModel || 'gpt-4o';
+                        state.tokenBudget = msg.tokenBudget || 0;
+                        state.diffContextLines = msg.diffContextLines ?? 3;
+                        state.diffAlgorithm = msg.diffAlgorithm || 'default';
+                        state.diffFunctionContext = !!msg.diffFunctionContext;
+                        saveState();
+                        render();
+                    } else if (msg.type === 'setTemplates') {
+                        templates = msg.templates;
+                        els.variablesHint.textContent = 'Variables: ' + msg.variables.map(v => '{{' + v + '}}').join(' ');
+                        renderTemplates();
+                    } else if (msg.type === 'selectTemplate') {
+                        state.instructionTemplate = msg.name;
+                        saveState();
+                        renderTemplates();
+                    } else if (msg.type === 'promptParts') {
+                        const parts = msg.value;
+                        els.copyNextPartBtn.textContent = parts ? 'Copy part ' + parts.next + ' of ' + parts.total : '';
+                        els.copyNextPartBtn.style.display = parts ? 'inline' : 'none';
                     } else if (msg.type === 'selectionSummary') {
                         state.selectedTokens = msg.totalTokens || 0;
                         saveState();
@@ -591,6 +1126,16 @@ export class ConfigViewProvider implements vscode.WebviewViewProvider {
     }
 }
 
+export interface RepositoryOption {
+    name: string;
+    root: string;
+}
+
+export interface PromptPartsState {
+    next: number; // Номер следующей части, с 1
+    total: number;
+}
+
 export interface ConfigData {
     targetBranch?: string;
     sourceBranch?: string;
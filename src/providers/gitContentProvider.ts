@@ -1,22 +1,27 @@
 import * as vscode from 'vscode';
-import { GitService } from '../services/gitService';
+import { RepositoryManager } from '../services/repositoryManager';
 
 /**
  * Этот провайдер позволяет открывать файлы из git по URI вида:
- * ai-review://git/path/to/file?ref=branchName
+ * ai-review://git/path/to/file?ref=branchName&repo=/path/to/repository
+ * Без repo используется активный репозиторий.
  */
 export class GitContentProvider implements vscode.TextDocumentContentProvider {
     // Событие обновления документа (если вдруг ветка обновится)
     onDidChange?: vscode.Event<vscode.Uri> | undefined;
 
-    constructor(private gitService: GitService) {}
+    constructor(private repositoryManager: RepositoryManager) {}
 
     async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
         // Парсим query params: ?ref=branchName
         const query = new URLSearchParams(uri.query);
         const ref = query.get('ref');
-        
-        if (!ref) {
+        const repoRoot = query.get('repo');
+        const repository = repoRoot
+            ? this.repositoryManager.getByRoot(repoRoot)
+            : this.repositoryManager.getActive();
+
+        if (!ref || !repository) {
             return '';
         }
 
@@ -27,6 +32,6 @@ export class GitContentProvider implements vscode.TextDocumentContentProvider {
             fsPath = fsPath.substring(1);
         }
 
-        return await this.gitService.getFileContent(ref, fsPath);
+        return await repository.gitService.getFileContent(ref, fsPath);
     }
 }
@@ -1,9 +1,14 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { ChangedFile } from '../types';
+import { ContextSuggestion, ImportGraph, selectWithinTokens, suggestRelatedFiles } from '../services/contextSuggestions';
+import { GitService } from '../services/gitService';
+import { getImportParser } from '../services/importParsers';
+import { getOutlineProvider } from '../services/outlineProviders';
+import { ChangedFile, ProjectContextSource, TokenizerModel } from '../types';
+import { ContentKind } from '../utils/fileContent';
 import { isMatch } from '../utils/glob';
-import { TokenEstimator, formatTokens } from '../utils/tokenEstimator';
+import { DEFAULT_TOKENIZER_MODEL, TokenEstimator, formatTokens } from '../utils/tokenEstimator';
 
 export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode> {
     private _onDidChangeTreeData = new vscode.EventEmitter<ProjectNode | undefined | null | void>();
@@ -13,22 +18,44 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
 
     private changedFilesSet: Set<string> = new Set();
     private checkedFiles: Set<string> = new Set();
+    // Файлы, от которых в промпт идут только объявления; выбор сохраняется и после снятия отметки
+    private outlineFiles: Set<string> = new Set();
     
     private activeIgnorePatterns: string[] = [];
     private tokenEstimator = new TokenEstimator();
+    private workspaceRoot: string;
 
-    constructor(private workspaceRoot: string) {
+    // Файлы и папки из git ls-files; undefined, если дерево строится по файловой системе
+    private fileSource: ProjectContextSource = 'filesystem';
+    private listedPaths?: Promise<ListedPaths | undefined>;
+
+    // Подсказки по графу импортов для текущего набора измененных файлов
+    private suggestions: ContextSuggestion[] = [];
+    private suggestionsKey = '';
+    private suggestedContextDepth = 2;
+
+    constructor(private gitService: GitService) {
+        this.workspaceRoot = gitService.getWorkspaceRoot();
         this.loadConfig();
         vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('aiReview.ignorePatterns')) {
+            if (e.affectsConfiguration('aiReview.ignorePatterns')
+                || e.affectsConfiguration('aiReview.suggestedContextDepth')
+                || e.affectsConfiguration('aiReview.projectContextSource')) {
+                this.loadConfig();
+                this.reload();
+            }
+            if (e.affectsConfiguration('aiReview.tokenizerModel')
+                || e.affectsConfiguration('aiReview.largeFileThresholdKB')
+                || e.affectsConfiguration('aiReview.truncatedFileLines')) {
                 this.loadConfig();
                 this.refresh();
+                this._onDidUpdateSelection.fire();
             }
         });
     }
 
     private loadConfig() {
-        const config = vscode.workspace.getConfiguration('aiReview');
+        const config = vscode.workspace.getConfiguration('aiReview', vscode.Uri.file(this.workspaceRoot));
         const rawConfig = config.get('ignorePatterns');
         
         let patterns: Record<string, boolean> = {};
@@ -43,12 +70,46 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
         this.activeIgnorePatterns = Object.entries(patterns)
             .filter(([_, isEnabled]) => isEnabled)
             .map(([pattern]) => pattern);
+        this.tokenEstimator.setModel(config.get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL));
+        this.tokenEstimator.setContentLimits({
+            maxBytes: config.get<number>('largeFileThresholdKB', 256) * 1024,
+            keepLines: config.get<number>('truncatedFileLines', 100)
+        });
+        this.suggestedContextDepth = config.get<number>('suggestedContextDepth', 2);
+        this.fileSource = config.get<ProjectContextSource>('projectContextSource', 'filesystem');
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * В отличие от refresh заново читает список файлов git и пересчитывает подсказки.
+     */
+    public reload(): void {
+        this.listedPaths = undefined;
+        this.suggestionsKey = '';
+        void this.updateSuggestions();
+        this.refresh();
+    }
+
+    /**
+     * Переключает дерево на другой репозиторий и восстанавливает выбранные в нем файлы.
+     */
+    public setGitService(gitService: GitService, checkedFiles: string[] = [], outlineFiles: string[] = []): void {
+        this.gitService = gitService;
+        this.workspaceRoot = gitService.getWorkspaceRoot();
+        this.listedPaths = undefined;
+        this.checkedFiles = new Set(checkedFiles);
+        this.outlineFiles = new Set(outlineFiles);
+        this.changedFilesSet.clear();
+        this.suggestions = [];
+        this.suggestionsKey = '';
+        this.loadConfig();
+        this.refresh();
+        this._onDidUpdateSelection.fire();
+    }
+
     public async setAllChecked(checked: boolean): Promise<void> {
         if (!checked) {
             this.checkedFiles.clear();
@@ -71,14 +132,50 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
         });
     }
 
+    /**
+     * Файлы и папки, которые git считает частью проекта (aiReview.projectContextSource).
+     * Паттерны aiReview.ignorePatterns применяются поверх этого списка.
+     */
+    private getListedPaths(): Promise<ListedPaths | undefined> {
+        if (this.fileSource === 'filesystem') {
+            return Promise.resolve(undefined);
+        }
+        if (!this.listedPaths) {
+            this.listedPaths = this.gitService.listFiles(this.fileSource === 'gitTrackedAndUntracked')
+                .then(files => {
+                    const directories = new Set<string>();
+                    for (const file of files) {
+                        for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+                            directories.add(dir);
+                        }
+                    }
+                    return { files: new Set(files), directories };
+                })
+                .catch(e => {
+                    // Без git показываем файловую систему, как раньше
+                    console.error('Failed to list files with git:', e);
+                    return undefined;
+                });
+        }
+        return this.listedPaths;
+    }
+
+    private isHidden(relativePath: string, isDirectory: boolean, listed: ListedPaths | undefined): boolean {
+        if (listed && !(isDirectory ? listed.directories : listed.files).has(relativePath)) {
+            return true;
+        }
+        return isMatch(relativePath, this.activeIgnorePatterns);
+    }
+
     private async walkDirectory(dir: string): Promise<string[]> {
         let results: string[] = [];
+        const listed = await this.getListedPaths();
         try {
             const list = await fs.promises.readdir(dir, { withFileTypes: true });
             for (const dirent of list) {
                 const fullPath = path.join(dir, dirent.name);
                 const relativePath = path.relative(this.workspaceRoot, fullPath).replace(/\\/g, '/');
-                if (isMatch(relativePath, this.activeIgnorePatterns)) continue;
+                if (this.isHidden(relativePath, dirent.isDirectory(), listed)) continue;
 
                 if (dirent.isDirectory()) {
                     const subFiles = await this.walkDirectory(fullPath);
@@ -95,19 +192,111 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
 
     public updateChangedFiles(files: ChangedFile[]): void {
         this.changedFilesSet = new Set(files.map(f => f.path));
+        void this.updateSuggestions();
+        this.refresh();
+    }
+
+    /**
+     * Пересчитывает подсказки, если изменился набор измененных файлов. Граф импортов
+     * строится по рабочему дереву заново, так как вместе с файлами обычно меняется и их содержимое.
+     */
+    private async updateSuggestions(): Promise<void> {
+        const changedPaths = Array.from(this.changedFilesSet).sort();
+        const key = `${this.workspaceRoot}:${this.suggestedContextDepth}:${changedPaths.join('\n')}`;
+        if (key === this.suggestionsKey) {
+            return;
+        }
+        this.suggestionsKey = key;
+
+        let suggestions: ContextSuggestion[] = [];
+        if (this.suggestedContextDepth > 0 && changedPaths.length > 0) {
+            try {
+                const files = (await this.walkDirectory(this.workspaceRoot)).filter(f => getImportParser(f));
+                const graph = await ImportGraph.build(files, filePath =>
+                    fs.promises.readFile(path.join(this.workspaceRoot, filePath), 'utf8').catch(() => undefined));
+                suggestions = await suggestRelatedFiles(graph, changedPaths, {
+                    maxDistance: this.suggestedContextDepth,
+                    limit: MAX_SUGGESTIONS,
+                    tokensOf: filePath => this.getFileTokenCount(filePath)
+                });
+            } catch (e) {
+                console.error('Failed to build import graph:', e);
+            }
+        }
+
+        // Пока граф строился, набор файлов мог измениться еще раз
+        if (key === this.suggestionsKey) {
+            this.suggestions = suggestions;
+            this.refresh();
+        }
+    }
+
+    /**
+     * Отмечает невыбранные подсказки по порядку ранга, пока они укладываются в maxTokens.
+     */
+    public addSuggestionsWithinTokens(maxTokens: number): ContextSuggestion[] {
+        const added = selectWithinTokens(this.suggestions.filter(s => !this.checkedFiles.has(s.path)), maxTokens);
+        added.forEach(s => this.checkedFiles.add(s.path));
+        if (added.length > 0) {
+            this.refresh();
+            this._onDidUpdateSelection.fire();
+        }
+        return added;
+    }
+
+    /**
+     * Отмечает файлы (например, тесты к измененным), кроме тех, что сами есть среди изменений.
+     */
+    public checkFiles(paths: string[]): void {
+        const added = paths.filter(p => !this.changedFilesSet.has(p) && !this.checkedFiles.has(p));
+        if (added.length === 0) {
+            return;
+        }
+        added.forEach(p => this.checkedFiles.add(p));
         this.refresh();
+        this._onDidUpdateSelection.fire();
+    }
+
+    public hasSuggestions(): boolean {
+        return this.suggestions.length > 0;
     }
 
     public getCheckedFiles(): string[] {
         return Array.from(this.checkedFiles);
     }
 
+    /**
+     * Включает файл в промпт только объявлениями (outline) или целиком. Выбор outline сразу отмечает файл.
+     */
+    public setOutline(relativePath: string, outline: boolean): void {
+        if (outline) {
+            this.outlineFiles.add(relativePath);
+            this.checkedFiles.add(relativePath);
+        } else {
+            this.outlineFiles.delete(relativePath);
+        }
+        this.refresh();
+        this._onDidUpdateSelection.fire();
+    }
+
+    public getOutlineFiles(): string[] {
+        return Array.from(this.outlineFiles);
+    }
+
     public async handleCheckboxChanges(items: ReadonlyArray<[ProjectNode, vscode.TreeItemCheckboxState]>): Promise<void> {
         const folderItems: Array<[ProjectFolderNode, vscode.TreeItemCheckboxState]> = [];
 
         for (const [item, state] of items) {
             if (item instanceof ProjectFileNode && item.checkboxState !== undefined) {
                 this.setFileCheckbox(item, state);
+            } else if (item instanceof ProjectSuggestionsNode) {
+                for (const suggestion of this.suggestions) {
+                    if (state === vscode.TreeItemCheckboxState.Checked) {
+                        this.checkedFiles.add(suggestion.path);
+                    } else {
+                        this.checkedFiles.delete(suggestion.path);
+                    }
+                }
             } else if (item instanceof ProjectFolderNode) {
                 folderItems.push([item, state]);
             }
@@ -147,10 +336,19 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
             return [];
         }
 
+        if (element instanceof ProjectSuggestionsNode) {
+            return this.suggestions.map(suggestion => new ProjectSuggestionNode(
+                path.join(this.workspaceRoot, suggestion.path),
+                suggestion,
+                this.checkedFiles.has(suggestion.path) ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked
+            ));
+        }
+
         const folderPath = element ? element.fullPath : this.workspaceRoot;
         
         try {
             const dirents = await fs.promises.readdir(folderPath, { withFileTypes: true });
+            const listed = await this.getListedPaths();
             
             const nodes: ProjectNode[] = [];
 
@@ -158,7 +356,7 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
                 const fullPath = path.join(folderPath, dirent.name);
                 const relativePath = path.relative(this.workspaceRoot, fullPath).replace(/\\/g, '/');
                 
-                if (isMatch(relativePath, this.activeIgnorePatterns)) {
+                if (this.isHidden(relativePath, dirent.isDirectory(), listed)) {
                     continue;
                 }
                 
@@ -191,17 +389,30 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
                         relativePath,
                         state,
                         isChangedFile,
-                        tokenCount
+                        tokenCount,
+                        this.tokenEstimator.getKind(fullPath) ?? 'text',
+                        !isChangedFile && getOutlineProvider(relativePath) ? this.outlineFiles.has(relativePath) : undefined
                     ));
                 }
             }
 
-            return nodes.sort((a, b) => {
+            nodes.sort((a, b) => {
                 if (a instanceof ProjectFolderNode && b instanceof ProjectFileNode) return -1;
                 if (a instanceof ProjectFileNode && b instanceof ProjectFolderNode) return 1;
                 return (a.label as string).localeCompare(b.label as string);
             });
 
+            // Группа Suggested стоит над деревом проекта
+            if (!element && this.suggestions.length > 0) {
+                const allChecked = this.suggestions.every(s => this.checkedFiles.has(s.path));
+                nodes.unshift(new ProjectSuggestionsNode(
+                    this.workspaceRoot,
+                    this.suggestions,
+                    allChecked ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked
+                ));
+            }
+            return nodes;
+
         } catch (e) {
             console.error(`Error reading directory ${folderPath}:`, e);
             return [];
@@ -233,8 +444,18 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
         return [state, tokenTotal];
     }
 
+    // У файлов в режиме outline считаем токены outline, а не всего файла
     private async getFileTokenCount(relativePath: string): Promise<number> {
         const fsPath = path.join(this.workspaceRoot, relativePath);
+        const outlineProvider = this.outlineFiles.has(relativePath) ? getOutlineProvider(relativePath) : undefined;
+        if (outlineProvider) {
+            try {
+                const content = await fs.promises.readFile(fsPath, 'utf8');
+                return this.tokenEstimator.estimateTokens(outlineProvider.outline(content, relativePath));
+            } catch (e) {
+                console.error(`Failed to build outline of ${relativePath}:`, e);
+            }
+        }
         return this.tokenEstimator.estimateFromFile(fsPath);
     }
 
@@ -247,6 +468,13 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectNode>
     }
 }
 
+const MAX_SUGGESTIONS = 30;
+
+interface ListedPaths {
+    files: Set<string>;
+    directories: Set<string>;
+}
+
 export abstract class ProjectNode extends vscode.TreeItem {
     constructor(
         public readonly label: string,
@@ -266,6 +494,13 @@ export class ProjectFolderNode extends ProjectNode {
     }
 }
 
+const CONTENT_KIND_NOTES: Record<ContentKind, string | undefined> = {
+    text: undefined,
+    binary: 'Binary file: only its path and size go into the prompt',
+    generated: 'Looks minified or generated: only its path and size go into the prompt',
+    large: 'Above aiReview.largeFileThresholdKB: only its beginning and end go into the prompt'
+};
+
 export class ProjectFileNode extends ProjectNode {
     constructor(
         label: string,
@@ -273,18 +508,53 @@ export class ProjectFileNode extends ProjectNode {
         relativePath: string,
         public checkboxState: vscode.TreeItemCheckboxState | undefined,
         isChangedFile: boolean,
-        tokenCount: number
+        tokenCount: number,
+        contentKind: ContentKind,
+        outline?: boolean // undefined, если для языка файла нет outline
     ) {
         super(label, fullPath, relativePath, vscode.TreeItemCollapsibleState.None);
-        this.iconPath = new vscode.ThemeIcon('file');
-        this.tooltip = relativePath;
-        const tokenLabel = formatTokens(tokenCount);
+        this.iconPath = new vscode.ThemeIcon(contentKind === 'binary' ? 'file-binary' : outline ? 'list-tree' : 'file');
+        this.tooltip = relativePath + (CONTENT_KIND_NOTES[contentKind] ? `\n${CONTENT_KIND_NOTES[contentKind]}` : '')
+            + (outline ? '\nOutline only: declarations without function bodies' : '');
+        // Большие файлы попадают в промпт обрезанными, бинарные и сгенерированные — без содержимого
+        const kindLabel = outline ? 'outline · ' : contentKind === 'large' ? 'truncated · ' : contentKind !== 'text' ? `${contentKind} · ` : '';
+        const tokenLabel = kindLabel + formatTokens(tokenCount);
         
         if (isChangedFile) {
             this.description = `(In Changes) · ${tokenLabel}`;
             this.contextValue = 'changedFile';
         } else {
             this.description = tokenLabel;
+            if (outline !== undefined) {
+                this.contextValue = outline ? 'outlineFile' : 'fullContentFile';
+            }
         }
     }
 }
+
+/**
+ * Группа файлов, связанных с измененными через импорты. Чекбокс группы отмечает все подсказки.
+ */
+export class ProjectSuggestionsNode extends ProjectNode {
+    constructor(workspaceRoot: string, suggestions: ContextSuggestion[], public checkboxState: vscode.TreeItemCheckboxState) {
+        super('Suggested', workspaceRoot, '', vscode.TreeItemCollapsibleState.Expanded);
+        this.iconPath = new vscode.ThemeIcon('lightbulb');
+        const tokens = suggestions.reduce((sum, s) => sum + s.tokens, 0);
+        this.description = `${suggestions.length} related · ${formatTokens(tokens)}`;
+        this.tooltip = 'Modules imported by the changed files and modules that import them';
+        this.contextValue = 'suggestions';
+    }
+}
+
+export class ProjectSuggestionNode extends ProjectFileNode {
+    constructor(fullPath: string, suggestion: ContextSuggestion, checkboxState: vscode.TreeItemCheckboxState) {
+        super(path.posix.basename(suggestion.path), fullPath, suggestion.path, checkboxState, false, suggestion.tokens, 'text');
+        const indirectly = suggestion.distance > 1 ? 'indirectly ' : '';
+        const relation = suggestion.relation === 'dependency'
+            ? `${indirectly}imported by ${path.posix.basename(suggestion.via)}`
+            : `${indirectly}imports ${path.posix.basename(suggestion.via)}`;
+        this.description = `${relation} · ${formatTokens(suggestion.tokens)}`;
+        this.tooltip = `${suggestion.path}\n${suggestion.relation === 'dependency' ? 'Imported by' : 'Imports'} ${suggestion.via}`
+            + (suggestion.distance > 1 ? ` (${suggestion.distance} hops)` : '');
+    }
+}
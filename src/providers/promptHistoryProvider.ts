@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+import { describeRef } from '../services/gitService';
+import { PromptHistory } from '../services/promptHistory';
+import { PromptHistoryEntry } from '../types';
+import { formatTokens } from '../utils/tokenEstimator';
+
+/**
+ * Скопированные и экспортированные промпты, новые сверху. Клик открывает текст промпта.
+ */
+export class PromptHistoryProvider implements vscode.TreeDataProvider<PromptHistoryNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<PromptHistoryNode | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private readonly history: PromptHistory) { }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: PromptHistoryNode): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: PromptHistoryNode): PromptHistoryNode[] {
+        if (element) {
+            return [];
+        }
+        return this.history.list().map(entry => new PromptHistoryNode(entry));
+    }
+}
+
+export class PromptHistoryNode extends vscode.TreeItem {
+    constructor(public readonly entry: PromptHistoryEntry) {
+        super(new Date(entry.createdAt).toLocaleString(), vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.contextValue = 'promptHistoryEntry';
+
+        const branches = entry.repositories
+            .map(r => `${r.name ? `${r.name}: ` : ''}${describeRef(r.targetBranch)} ← ${describeRef(r.sourceBranch)}`)
+            .join(', ');
+        const part = entry.part ? ` · part ${entry.part.index}/${entry.part.total}` : '';
+        this.description = `${branches}${part} · ${formatTokens(entry.tokens)} · ${entry.files.length + entry.contextFiles.length} files`;
+
+        const shas = entry.repositories.map(r => {
+            const source = r.sourceSha ? r.sourceSha.substring(0, 7) : describeRef(r.sourceBranch);
+            const target = r.targetSha ? r.targetSha.substring(0, 7) : describeRef(r.targetBranch);
+            return `${r.name ? `${r.name}: ` : ''}${target} ← ${source}`;
+        });
+        this.tooltip = [
+            ...shas,
+            `${entry.format} · ${formatTokens(entry.tokens)} tokens`,
+            '',
+            entry.instruction,
+            '',
+            ...entry.files,
+            ...entry.contextFiles.map(f => `${f} (supplementary)`)
+        ].join('\n');
+
+        this.command = {
+            command: 'aiReview.history.open',
+            title: 'Open Prompt',
+            arguments: [this]
+        };
+    }
+}
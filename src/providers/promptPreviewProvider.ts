@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { PromptBreakdown, describeBreakdown } from '../services/promptBreakdown';
+import { RedactionReport } from '../services/redaction';
+import { PromptConfig, PromptFormat, TokenizerModel } from '../types';
+import { formatTokens } from '../utils/tokenEstimator';
+
+export interface PromptPreviewState {
+    config: PromptConfig; // Из чего собран промпт, для истории при копировании
+    text: string;
+    format: PromptFormat;
+    breakdown: PromptBreakdown;
+    model: TokenizerModel;
+    report: RedactionReport;
+}
+
+// Расширение задает подсветку; у JSON — jsonc, иначе комментарий с разбивкой подсвечивается как ошибка
+const PREVIEW_FILE_NAMES: Record<PromptFormat, string> = {
+    xml: 'prompt.xml',
+    markdown: 'prompt.md',
+    json: 'prompt.jsonc'
+};
+
+/**
+ * Превью промпта перед копированием: read-only документ по URI вида ai-review-preview:/prompt.xml.
+ * В начале документа комментарий с токенами по разделам, за ним сам промпт.
+ * Копируется и сохраняется только промпт, без комментария.
+ */
+export class PromptPreviewProvider implements vscode.TextDocumentContentProvider {
+    public static readonly scheme = 'ai-review-preview';
+
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    private current?: PromptPreviewState;
+
+    public getCurrent(): PromptPreviewState | undefined {
+        return this.current;
+    }
+
+    public async show(preview: PromptPreviewState): Promise<void> {
+        this.current = preview;
+        const uri = vscode.Uri.from({ scheme: PromptPreviewProvider.scheme, path: `/${PREVIEW_FILE_NAMES[preview.format]}` });
+        // Уже открытый документ перечитывает содержимое только по onDidChange
+        this._onDidChange.fire(uri);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    provideTextDocumentContent(_uri: vscode.Uri): string {
+        if (!this.current) {
+            return '';
+        }
+        return this.formatHeader(this.current) + this.current.text;
+    }
+
+    private formatHeader({ format, breakdown, model, report }: PromptPreviewState): string {
+        const lines = [
+            `AI Review prompt preview: ${formatTokens(breakdown.total)} tokens (${model})`,
+            'Copy, Save and Regenerate are in the editor title bar. Only the prompt below this comment is copied.',
+            '',
+            ...describeBreakdown(breakdown)
+        ];
+        if (!report.isEmpty()) {
+            lines.push('', ...report.describe());
+        }
+
+        if (format === 'json') {
+            return lines.map(line => `// ${line}`.trimEnd()).join('\n') + '\n\n';
+        }
+        // Двойной дефис недопустим внутри XML комментария
+        return `<!--\n${lines.join('\n').replace(/--/g, '- -')}\n-->\n\n`;
+    }
+}
@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { ReviewComment } from '../services/reviewResponseParser';
+
+export interface ReviewCommentsImport {
+    placed: number;
+    unmapped: ReviewComment[]; // Файл не найден; такие замечания не теряются, а показываются списком
+}
+
+/**
+ * Замечания из ответа модели как треды Comments API на строках файлов. Файл для замечания
+ * выбирает resolve: ai-review:// документ source ветки или файл workspace.
+ */
+export class ReviewCommentsController implements vscode.Disposable {
+    private readonly controller = vscode.comments.createCommentController('aiReview.comments', 'AI Review');
+    private threads: vscode.CommentThread[] = [];
+
+    public async import(
+        comments: ReviewComment[],
+        resolve: (comment: ReviewComment) => Promise<vscode.Uri | undefined>
+    ): Promise<ReviewCommentsImport> {
+        const unmapped: ReviewComment[] = [];
+        let placed = 0;
+        for (const comment of comments) {
+            const uri = await resolve(comment);
+            const document = uri && await this.openDocument(uri);
+            if (!document) {
+                unmapped.push(comment);
+                continue;
+            }
+            this.addThread(document, comment);
+            placed++;
+        }
+        return { placed, unmapped };
+    }
+
+    public removeThread(thread: vscode.CommentThread): void {
+        this.threads = this.threads.filter(t => t !== thread);
+        thread.dispose();
+    }
+
+    public clear(): void {
+        this.threads.forEach(thread => thread.dispose());
+        this.threads = [];
+    }
+
+    dispose(): void {
+        this.clear();
+        this.controller.dispose();
+    }
+
+    private async openDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+        try {
+            return await vscode.workspace.openTextDocument(uri);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private addThread(document: vscode.TextDocument, comment: ReviewComment): void {
+        const thread = this.controller.createCommentThread(document.uri, this.getRange(document, comment), [{
+            body: new vscode.MarkdownString(comment.body),
+            mode: vscode.CommentMode.Preview,
+            author: { name: 'AI Review' }
+        }]);
+        thread.canReply = false;
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+        this.threads.push(thread);
+    }
+
+    /**
+     * Строки замечания в пределах документа: модель может ошибиться с номером строки
+     * или сослаться на версию файла длиннее текущей. Без номера ищем первую строку snippet,
+     * а если ее нет — тред ставится на начало файла.
+     */
+    private getRange(document: vscode.TextDocument, comment: ReviewComment): vscode.Range {
+        const lastLine = Math.max(0, document.lineCount - 1);
+        let start = comment.line !== undefined ? comment.line - 1 : this.findSnippet(document, comment.snippet) ?? 0;
+        start = Math.min(Math.max(0, start), lastLine);
+        const end = comment.endLine !== undefined ? Math.min(Math.max(start, comment.endLine - 1), lastLine) : start;
+        return new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+    }
+
+    private findSnippet(document: vscode.TextDocument, snippet?: string): number | undefined {
+        const firstLine = snippet?.split('\n').map(line => line.trim()).find(line => line.length > 0);
+        if (!firstLine) {
+            return undefined;
+        }
+        for (let i = 0; i < document.lineCount; i++) {
+            if (document.lineAt(i).text.trim() === firstLine) {
+                return i;
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+
+// Как часто дописывать пришедший текст: правка на каждый кусочек стрима заметно тормозит редактор
+const FLUSH_INTERVAL_MS = 100;
+
+/**
+ * Ответ модели в новом untitled Markdown документе. Текст дописывается в конец по мере
+ * прихода; документ остается обычным редактируемым, его можно сохранить.
+ */
+export class ReviewResponseDocument {
+    private pending = '';
+    private timer?: NodeJS.Timeout;
+    private writing: Promise<unknown> = Promise.resolve();
+
+    private constructor(private readonly document: vscode.TextDocument) { }
+
+    public static async open(header: string): Promise<ReviewResponseDocument> {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: header });
+        await vscode.window.showTextDocument(document, { preview: false });
+        return new ReviewResponseDocument(document);
+    }
+
+    public append(text: string): void {
+        this.pending += text;
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+        }
+    }
+
+    // Дописывает остаток; после завершения стрима
+    public async close(footer = ''): Promise<void> {
+        this.pending += footer;
+        this.flush();
+        await this.writing;
+    }
+
+    private flush(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        const text = this.pending;
+        this.pending = '';
+        if (!text || this.document.isClosed) {
+            return;
+        }
+        // Правки идут строго по очереди, иначе позиция конца документа устаревает
+        this.writing = this.writing.then(() => {
+            const edit = new vscode.WorkspaceEdit();
+            edit.insert(this.document.uri, this.document.positionAt(this.document.getText().length), text);
+            return vscode.workspace.applyEdit(edit);
+        });
+    }
+}
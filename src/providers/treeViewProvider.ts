@@ -1,46 +1,97 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitService } from '../services/gitService';
+import * as fs from 'fs';
+import { GitService, WORKING_TREE_REF, INDEX_REF, describeRef } from '../services/gitService';
 import { PromptGenerator } from '../services/promptGenerator';
-import { ChangedFile } from '../types';
+import { ReviewOptionsState } from '../services/reviewOptions';
+import { DEFAULT_TEST_PAIRING_RULES, pairTestFiles } from '../services/testPairing';
+import { ChangedFile, ChangesSnapshot, CommitInfo, CommitRange, ComparisonMode, ContentLimits, DiffAlgorithm, DiffOptions, RenameDetection, TestPairingRule, TokenizerModel } from '../types';
+import { DiffHunk, formatHunk, parseDiff, previewHunk } from '../utils/diffHunks';
+import { ContentKind, DEFAULT_CONTENT_LIMITS, isBinaryDiff, truncateContent } from '../utils/fileContent';
 import { isMatch } from '../utils/glob';
-import { TokenEstimator, formatTokens } from '../utils/tokenEstimator';
+import { DEFAULT_TOKENIZER_MODEL, TokenEstimator, formatTokens } from '../utils/tokenEstimator';
 
 export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
     private _onDidChangeTreeData = new vscode.EventEmitter<TreeNode | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
     private _onDidUpdateSelection = new vscode.EventEmitter<void>();
     readonly onDidUpdateSelection = this._onDidUpdateSelection.event;
+    // Список изменений загружен заново (а не восстановлен из снимка)
+    private _onDidLoadFiles = new vscode.EventEmitter<void>();
+    readonly onDidLoadFiles = this._onDidLoadFiles.event;
 
     public sourceBranch?: string;
     public targetBranch?: string;
+    public mergeBase?: string;
+    public commitRange?: CommitRange;
+    public commits: CommitInfo[] = [];
+    public diffOptions: DiffOptions = {};
     public instruction: string = 'Review changes.';
+    public omitPartialContent: boolean = true;
+    public testPairingRules: TestPairingRule[] = DEFAULT_TEST_PAIRING_RULES;
+    public contentLimits: ContentLimits = DEFAULT_CONTENT_LIMITS;
     
     private changedFiles: ChangedFile[] = [];
     private checkedFiles = new Map<string, vscode.TreeItemCheckboxState>();
     private activeIgnorePatterns: string[] = [];
-    private fileTokenCounts = new Map<string, number>();
+    private fileTokenCounts = new Map<string, number>(); // diff + content
+    private contentTokenCounts = new Map<string, number>();
+    // Бинарные, сгенерированные и большие файлы идут в промпт без содержимого
+    private contentKinds = new Map<string, ContentKind>();
+    private fileHunks = new Map<string, Array<{ hunk: DiffHunk; tokens: number }>>();
+    // Файлы, в которых выбраны не все hunks: путь -> индексы выбранных. Нет записи — файл целиком
+    private selectedHunks = new Map<string, Set<number>>();
     private tokenEstimator = new TokenEstimator();
     private workspaceRoot: string;
+    // Тесты к измененным файлам и измененные исходники без тестов
+    private testCounterparts: string[] = [];
+    private untestedPaths = new Set<string>();
 
     constructor(
         private gitService: GitService,
-        private promptGenerator: PromptGenerator
+        private promptGenerator: PromptGenerator,
+        private readonly reviewOptions: ReviewOptionsState
     ) {
         this.workspaceRoot = gitService.getWorkspaceRoot();
         this.loadConfig();
         vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('aiReview.diffIgnorePatterns')) {
+            if (e.affectsConfiguration('aiReview.diffIgnorePatterns')
+                || e.affectsConfiguration('aiReview.renameDetection')
+                || e.affectsConfiguration('aiReview.renameThreshold')) {
                 this.loadConfig();
                 if (this.sourceBranch && this.targetBranch) {
                     this.loadFiles();
                 }
             }
+            if (e.affectsConfiguration('aiReview.comparisonMode') && this.sourceBranch && this.targetBranch) {
+                this.loadFiles();
+            }
+            if (e.affectsConfiguration('aiReview.diffContextLines')
+                || e.affectsConfiguration('aiReview.diffFunctionContext')
+                || e.affectsConfiguration('aiReview.diffAlgorithm')) {
+                this.reloadDiffOptions();
+            }
+            if (e.affectsConfiguration('aiReview.testPairingRules')) {
+                this.loadConfig();
+                void this.updateTestPairing().then(() => this.refresh());
+            }
+            if (e.affectsConfiguration('aiReview.tokenizerModel')
+                || e.affectsConfiguration('aiReview.omitContentForPartialHunks')
+                || e.affectsConfiguration('aiReview.largeFileThresholdKB')
+                || e.affectsConfiguration('aiReview.truncatedFileLines')) {
+                this.loadConfig();
+                void this.recountTokens();
+            }
         });
     }
 
+    // Настройки читаем в области активного репозитория, чтобы работали настройки папок multi-root workspace
+    private getConfiguration(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('aiReview', vscode.Uri.file(this.workspaceRoot));
+    }
+
     private loadConfig() {
-        const config = vscode.workspace.getConfiguration('aiReview');
+        const config = this.getConfiguration();
         const rawConfig = config.get('diffIgnorePatterns');
         
         let patterns: Record<string, boolean> = {};
@@ -56,17 +107,108 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
         this.activeIgnorePatterns = Object.entries(patterns)
             .filter(([_, isEnabled]) => isEnabled)
             .map(([pattern]) => pattern);
+
+        const settings = getReviewSettings(this.workspaceRoot, this.reviewOptions);
+        this.diffOptions = settings.diffOptions;
+        this.omitPartialContent = settings.omitPartialContent;
+        this.testPairingRules = settings.testPairingRules;
+        this.contentLimits = settings.contentLimits;
+        this.tokenEstimator.setModel(config.get<TokenizerModel>('tokenizerModel', DEFAULT_TOKENIZER_MODEL));
+        this.tokenEstimator.setContentLimits(this.contentLimits);
+    }
+
+    // Контекст diff поменялся в настройках или в параметрах ревью
+    public reloadDiffOptions(): void {
+        // С другим контекстом diff делится на hunks иначе, выбор hunks больше не подходит
+        this.selectedHunks.clear();
+        this.loadConfig();
+        void this.recountTokens();
+    }
+
+    private async recountTokens(): Promise<void> {
+        await this.populateTokenCounts();
+        this.refresh();
+        this._onDidUpdateSelection.fire();
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Переключает панель на другой репозиторий. Если передан снимок, восстанавливаем
+     * выбор, сделанный в этом репозитории раньше, иначе начинаем с пустого.
+     * Ветки с момента снимка могли уйти вперед, поэтому изменения загружаются заново,
+     * а из выбора остается только то, что совпадает с новым diff.
+     */
+    public async setGitService(gitService: GitService, snapshot?: ChangesSnapshot): Promise<void> {
+        this.gitService = gitService;
+        this.workspaceRoot = gitService.getWorkspaceRoot();
+        this.loadConfig();
+
+        this.targetBranch = snapshot?.targetBranch;
+        this.sourceBranch = snapshot?.sourceBranch;
+        this.commitRange = snapshot?.commitRange;
+        this.mergeBase = undefined;
+        this.commits = [];
+        this.changedFiles = [];
+        this.checkedFiles.clear();
+        this.selectedHunks.clear();
+
+        if (snapshot && this.targetBranch && this.sourceBranch) {
+            await this.fetchChanges();
+            // Новые файлы отмечены, как после loadFiles; снятые в снимке остаются снятыми
+            const known = new Set(snapshot.changedFiles.map(f => f.path));
+            const checked = new Set(snapshot.checkedPaths);
+            for (const file of this.changedFiles) {
+                if (checked.has(file.path) || !known.has(file.path)) {
+                    this.checkedFiles.set(file.path, vscode.TreeItemCheckboxState.Checked);
+                }
+            }
+        }
+
+        await this.populateTokenCounts();
+        this.restoreSelectedHunks(snapshot);
+        await this.updateTestPairing();
+        this.refresh();
+        this._onDidUpdateSelection.fire();
+    }
+
+    // Выбор hunks из снимка годится, только если hunks файла остались теми же
+    private restoreSelectedHunks(snapshot?: ChangesSnapshot): void {
+        for (const [filePath, indices] of Object.entries(snapshot?.selectedHunks ?? {})) {
+            const headers = (this.fileHunks.get(filePath) ?? []).map(({ hunk }) => hunk.header);
+            const saved = snapshot?.hunkHeaders?.[filePath];
+            if (this.checkedFiles.has(filePath) && saved && headers.join('\n') === saved.join('\n')) {
+                this.selectedHunks.set(filePath, new Set(indices));
+            }
+        }
+    }
+
+    public getSnapshot(): ChangesSnapshot {
+        const selectedHunks = this.getSelectedHunks();
+        return {
+            targetBranch: this.targetBranch,
+            sourceBranch: this.sourceBranch,
+            mergeBase: this.mergeBase,
+            commitRange: this.commitRange,
+            commits: this.commits,
+            changedFiles: this.changedFiles,
+            checkedPaths: this.getCheckedFiles().map(f => f.path),
+            selectedHunks,
+            hunkHeaders: Object.fromEntries(Object.keys(selectedHunks).map(filePath => [
+                filePath,
+                (this.fileHunks.get(filePath) ?? []).map(({ hunk }) => hunk.header)
+            ]))
+        };
+    }
+
     public setAllChecked(checked: boolean): void {
         const state = checked ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
         for (const file of this.changedFiles) {
             this.checkedFiles.set(file.path, state);
         }
+        this.selectedHunks.clear();
         this.refresh();
         this._onDidUpdateSelection.fire();
     }
@@ -81,16 +223,32 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
         );
     }
 
+    /**
+     * Выбранные hunks отмеченных файлов, в которых выбраны не все hunks (для PromptConfig.selectedHunks).
+     */
+    public getSelectedHunks(): Record<string, number[]> {
+        const result: Record<string, number[]> = {};
+        for (const file of this.getCheckedFiles()) {
+            const hunks = this.selectedHunks.get(file.path);
+            if (hunks) {
+                result[file.path] = Array.from(hunks).sort((a, b) => a - b);
+            }
+        }
+        return result;
+    }
+
     async updateConfig(targetBranch?: string, sourceBranch?: string, instruction?: string): Promise<void> {
         let shouldLoadFiles = false;
 
         if (targetBranch !== undefined && targetBranch !== this.targetBranch) {
             this.targetBranch = targetBranch || undefined;
+            this.commitRange = undefined;
             shouldLoadFiles = true;
         }
 
         if (sourceBranch !== undefined && sourceBranch !== this.sourceBranch) {
             this.sourceBranch = sourceBranch || undefined;
+            this.commitRange = undefined;
             shouldLoadFiles = true;
         }
 
@@ -107,18 +265,13 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
 
     async selectTargetBranch(): Promise<void> {
         try {
-            const branches = await this.gitService.getBranches();
-            if (branches.length === 0) {
-                vscode.window.showWarningMessage('No git branches found.');
-                return;
-            }
-            const targetBranch = await vscode.window.showQuickPick(branches, {
-                placeHolder: 'Select target branch (base)',
-                title: 'Target Branch'
-            });
+            const targetBranch = await this.pickRef('Target Branch', 'Select target branch (base) or type a ref/SHA', [
+                { label: 'HEAD', description: 'Current commit', ref: 'HEAD' }
+            ]);
             if (!targetBranch) return;
 
             this.targetBranch = targetBranch;
+            this.commitRange = undefined;
             this.refresh();
             if (this.sourceBranch) await this.loadFiles();
         } catch (error: any) {
@@ -128,18 +281,14 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
 
     async selectSourceBranch(): Promise<void> {
         try {
-            const branches = await this.gitService.getBranches();
-            if (branches.length === 0) {
-                vscode.window.showWarningMessage('No git branches found.');
-                return;
-            }
-            const sourceBranch = await vscode.window.showQuickPick(branches, {
-                placeHolder: 'Select source branch (compare)',
-                title: 'Source Branch'
-            });
+            const sourceBranch = await this.pickRef('Source Branch', 'Select source branch (compare) or type a ref/SHA', [
+                { label: describeRef(WORKING_TREE_REF), description: 'Staged, unstaged and untracked changes', ref: WORKING_TREE_REF },
+                { label: describeRef(INDEX_REF), description: 'Staged changes only', ref: INDEX_REF }
+            ]);
             if (!sourceBranch) return;
 
             this.sourceBranch = sourceBranch;
+            this.commitRange = undefined;
             this.refresh();
             if (this.targetBranch) await this.loadFiles();
         } catch (error: any) {
@@ -154,34 +303,178 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
         }
     }
 
+    /**
+     * Quick Pick со списком локальных и remote веток и тегов. Введенный вручную ref
+     * или SHA проверяется через git rev-parse.
+     */
+    private async pickRef(title: string, placeholder: string, pinned: RefPickItem[]): Promise<string | undefined> {
+        const refs = await this.gitService.getRefs();
+        const items: RefPickItem[] = [
+            ...pinned,
+            ...this.refGroup('Local Branches', 'git-branch', refs.local),
+            ...this.refGroup('Remote Branches', 'cloud', refs.remote),
+            ...this.refGroup('Tags', 'tag', refs.tags)
+        ];
+
+        const ref = await this.showRefQuickPick(items, title, placeholder);
+        if (!ref || items.some(item => item.ref === ref)) {
+            return ref;
+        }
+
+        if (!await this.gitService.resolveCommit(ref)) {
+            vscode.window.showErrorMessage(`Unknown ref: ${ref}`);
+            return undefined;
+        }
+        return ref;
+    }
+
+    private refGroup(label: string, icon: string, refs: string[]): RefPickItem[] {
+        if (refs.length === 0) {
+            return [];
+        }
+        return [
+            { label, kind: vscode.QuickPickItemKind.Separator, ref: '' },
+            ...refs.map(ref => ({ label: `$(${icon}) ${ref}`, ref }))
+        ];
+    }
+
+    /**
+     * createQuickPick вместо showQuickPick, чтобы можно было принять введенный текст,
+     * которого нет в списке (SHA, A..B, A...B, HEAD~N).
+     */
+    private async showRefQuickPick(items: RefPickItem[], title: string, placeholder: string): Promise<string | undefined> {
+        const quickPick = vscode.window.createQuickPick<RefPickItem>();
+        quickPick.title = title;
+        quickPick.placeholder = placeholder;
+        quickPick.matchOnDescription = true;
+        quickPick.items = items;
+
+        const ref = await new Promise<string | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                const selected = quickPick.selectedItems[0];
+                resolve(selected ? selected.ref : quickPick.value.trim());
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => resolve(undefined));
+            quickPick.show();
+        });
+        quickPick.dispose();
+        return ref || undefined;
+    }
+
+    async selectCommitRange(): Promise<void> {
+        const commits = await this.gitService.getRecentCommits();
+        const spec = await this.showRefQuickPick(
+            commits.map(c => ({ label: c.shortSha, description: c.subject, ref: c.sha })),
+            'Review Commits',
+            'Pick a commit or type a SHA, A..B or A...B range, or HEAD~N'
+        );
+        if (!spec) return;
+
+        const range = await this.gitService.resolveCommitRange(spec);
+        if (!range) {
+            vscode.window.showErrorMessage(`Unknown commit or range: ${spec}`);
+            return;
+        }
+
+        this.commitRange = range;
+        this.targetBranch = range.base;
+        this.sourceBranch = range.head;
+        await this.loadFiles();
+    }
+
+    /**
+     * Short description of what is being reviewed, shown in the view header.
+     */
+    public getReviewLabel(): string | undefined {
+        if (this.commitRange) {
+            return this.commitRange.spec;
+        }
+        if (this.targetBranch && this.sourceBranch) {
+            return `${describeRef(this.targetBranch)} ↔ ${describeRef(this.sourceBranch)}`;
+        }
+        return undefined;
+    }
+
     async loadFiles(): Promise<void> {
         if (!this.sourceBranch || !this.targetBranch) {
             vscode.window.showWarningMessage('Please select branches first');
             return;
         }
 
-        const allFiles = await this.gitService.getChangedFiles(this.targetBranch, this.sourceBranch);
-
-        // Filter using active patterns
-        this.changedFiles = allFiles.filter(file => !isMatch(file.path, this.activeIgnorePatterns));
+        const allFiles = await this.fetchChanges();
 
         this.checkedFiles.clear();
+        this.selectedHunks.clear();
         for (const file of this.changedFiles) {
             this.checkedFiles.set(file.path, vscode.TreeItemCheckboxState.Checked);
         }
 
         await this.populateTokenCounts();
+        await this.updateTestPairing();
 
         this.refresh();
         this._onDidUpdateSelection.fire();
+        this._onDidLoadFiles.fire();
 
         if (this.changedFiles.length === 0 && allFiles.length > 0) {
             vscode.window.showInformationMessage('Changes found, but all were hidden by your Ignore Patterns.');
         } else if (this.changedFiles.length === 0) {
-            vscode.window.showInformationMessage('No changes found between branches');
+            vscode.window.showInformationMessage(`No changes found in ${this.getReviewLabel()}`);
         }
     }
 
+    // merge-base, коммиты диапазона и измененные файлы для выбранных веток; возвращает файлы до фильтра
+    private async fetchChanges(): Promise<ChangedFile[]> {
+        // Диапазон коммитов всегда сравнивается напрямую: его границы уже выбраны пользователем
+        const comparisonMode = this.getConfiguration().get<ComparisonMode>('comparisonMode', 'merge-base');
+        this.mergeBase = comparisonMode === 'merge-base' && !this.commitRange
+            ? await this.gitService.getMergeBase(this.targetBranch!, this.sourceBranch!)
+            : undefined;
+        this.commits = this.commitRange
+            ? await this.gitService.getCommits(this.commitRange.base, this.commitRange.head)
+            : [];
+
+        const allFiles = await this.gitService.getChangedFiles(this.getBaseRef()!, this.sourceBranch!, this.diffOptions);
+
+        // Filter using active patterns
+        this.changedFiles = allFiles.filter(file => !isMatch(file.path, this.activeIgnorePatterns));
+        return allFiles;
+    }
+
+    /**
+     * Ищет тесты к измененным файлам по правилам aiReview.testPairingRules. Парные файлы
+     * ищем в рабочем дереве: из него же Project Context добавляет их в промпт.
+     */
+    private async updateTestPairing(): Promise<void> {
+        const present = this.changedFiles.filter(f => f.status !== 'D');
+        const pairing = await pairTestFiles(
+            present.map(f => f.path),
+            filePath => fs.promises.access(path.join(this.workspaceRoot, filePath)).then(() => true, () => false),
+            this.testPairingRules
+        );
+        const changedPaths = new Set(this.changedFiles.map(f => f.path));
+        this.testCounterparts = Array.from(new Set(Array.from(pairing.counterparts.values()).flat()))
+            .filter(p => !changedPaths.has(p));
+        this.untestedPaths = new Set(pairing.untested);
+    }
+
+    // Парные файлы, которых нет среди изменений: их можно добавить в контекст
+    public getTestCounterparts(): string[] {
+        return this.testCounterparts;
+    }
+
+    public getUntestedFiles(): ChangedFile[] {
+        return this.changedFiles.filter(f => this.untestedPaths.has(f.path));
+    }
+
+    /**
+     * Ref, от которого строятся diff: merge-base в режиме merge-base, иначе сама target ветка.
+     */
+    public getBaseRef(): string | undefined {
+        return this.mergeBase ?? this.targetBranch;
+    }
+
     async setInstruction(): Promise<void> {
         const instruction = await vscode.window.showInputBox({
             prompt: 'Enter review instruction',
@@ -209,6 +502,9 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
         if (element instanceof FolderNode) {
             return element.children;
         }
+        if (element instanceof FileNode) {
+            return this.buildHunkNodes(element);
+        }
         return [];
     }
 
@@ -224,8 +520,12 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
                     file,
                     this.sourceBranch!,
                     this.targetBranch!,
+                    this.mergeBase,
                     checkboxState,
-                    this.fileTokenCounts.get(file.path) ?? 0
+                    this.getFileTokenCount(file.path),
+                    this.getHunkSummary(file.path),
+                    this.untestedPaths.has(file.path),
+                    this.contentKinds.get(file.path) ?? 'text'
                 ));
             } else {
                 const topLevelFolder = parts[0];
@@ -254,8 +554,12 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
                 file,
                 this.sourceBranch!,
                 this.targetBranch!,
+                this.mergeBase,
                 checkboxState,
-                this.fileTokenCounts.get(file.path) ?? 0
+                this.getFileTokenCount(file.path),
+                this.getHunkSummary(file.path),
+                this.untestedPaths.has(file.path),
+                this.contentKinds.get(file.path) ?? 'text'
             ));
         } else {
             const nextFolder = pathParts[0];
@@ -305,25 +609,37 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
     async handleCheckboxChanges(items: ReadonlyArray<[TreeNode, vscode.TreeItemCheckboxState]>): Promise<void> {
         const fileItems: Array<[FileNode, vscode.TreeItemCheckboxState]> = [];
         const folderItems: Array<[FolderNode, vscode.TreeItemCheckboxState]> = [];
+        const hunkItems: Array<[HunkNode, vscode.TreeItemCheckboxState]> = [];
 
         for (const [item, state] of items) {
             if (item instanceof FileNode) {
                 fileItems.push([item, state]);
             } else if (item instanceof FolderNode) {
                 folderItems.push([item, state]);
+            } else if (item instanceof HunkNode) {
+                hunkItems.push([item, state]);
             }
         }
 
+        // Hunks first: VS Code also reports the parent file whose state flipped because of them
+        const toggledByHunk = new Set<string>();
+        for (const [hunkNode, state] of hunkItems) {
+            this.toggleHunk(hunkNode.filePath, hunkNode.index, state === vscode.TreeItemCheckboxState.Checked);
+            toggledByHunk.add(hunkNode.filePath);
+        }
+
         // Apply file-level changes first so parent updates don't cascade to unrelated files.
         for (const [fileNode, state] of fileItems) {
+            if (toggledByHunk.has(fileNode.file.path)) continue;
             fileNode.checkboxState = state;
             this.checkedFiles.set(fileNode.file.path, state);
+            this.selectedHunks.delete(fileNode.file.path);
         }
 
         // Only cascade folder changes when the user toggled a folder directly;
         // folder states also change when a child checkbox flips, and we avoid
         // unchecking unrelated children in that case.
-        const shouldPropagateFolderState = fileItems.length === 0;
+        const shouldPropagateFolderState = fileItems.length === 0 && hunkItems.length === 0;
         for (const [folderNode, state] of folderItems) {
             folderNode.checkboxState = state;
             if (shouldPropagateFolderState) {
@@ -340,34 +656,123 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
             child.checkboxState = state;
             if (child instanceof FileNode) {
                 this.checkedFiles.set(child.file.path, state);
+                this.selectedHunks.delete(child.file.path);
             } else if (child instanceof FolderNode) {
                 this.updateFolderChildren(child, state);
             }
         }
     }
 
+    /**
+     * Включает или исключает hunk. Отмеченный hunk в неотмеченном файле выбирает только его;
+     * если исключены все hunks, файл снимается целиком.
+     */
+    private toggleHunk(filePath: string, index: number, checked: boolean): void {
+        const total = this.fileHunks.get(filePath)?.length ?? 0;
+        const fileChecked = this.checkedFiles.get(filePath) === vscode.TreeItemCheckboxState.Checked;
+        const all = Array.from({ length: total }, (_, i) => i);
+        const selected = fileChecked ? new Set(this.selectedHunks.get(filePath) ?? all) : new Set<number>();
+
+        if (checked) {
+            selected.add(index);
+        } else {
+            selected.delete(index);
+        }
+
+        if (selected.size === 0) {
+            this.checkedFiles.set(filePath, vscode.TreeItemCheckboxState.Unchecked);
+            this.selectedHunks.delete(filePath);
+        } else {
+            this.checkedFiles.set(filePath, vscode.TreeItemCheckboxState.Checked);
+            if (selected.size === total) {
+                this.selectedHunks.delete(filePath);
+            } else {
+                this.selectedHunks.set(filePath, selected);
+            }
+        }
+    }
+
+    private buildHunkNodes(fileNode: FileNode): HunkNode[] {
+        const filePath = fileNode.file.path;
+        const fileChecked = this.checkedFiles.get(filePath) === vscode.TreeItemCheckboxState.Checked;
+        const selected = this.selectedHunks.get(filePath);
+        return (this.fileHunks.get(filePath) ?? []).map(({ hunk, tokens }, index) => new HunkNode(
+            filePath,
+            index,
+            hunk,
+            fileChecked && (!selected || selected.has(index))
+                ? vscode.TreeItemCheckboxState.Checked
+                : vscode.TreeItemCheckboxState.Unchecked,
+            tokens,
+            fileNode.command
+        ));
+    }
+
+    // "2/5 hunks", если выбраны не все hunks файла
+    private getHunkSummary(filePath: string): HunkSummary {
+        return {
+            total: this.fileHunks.get(filePath)?.length ?? 0,
+            selected: this.selectedHunks.get(filePath)?.size
+        };
+    }
+
+    /**
+     * Токены файла в промпте с учетом выбранных hunks: при частичном выборе считаем только
+     * их, а содержимое файла — если оно не пропускается (omitContentForPartialHunks).
+     */
+    public getFileTokenCount(filePath: string): number {
+        const selected = this.selectedHunks.get(filePath);
+        if (!selected) {
+            return this.fileTokenCounts.get(filePath) ?? 0;
+        }
+        const hunks = this.fileHunks.get(filePath) ?? [];
+        const diffTokens = Array.from(selected).reduce((sum, i) => sum + (hunks[i]?.tokens ?? 0), 0);
+        return diffTokens + (this.omitPartialContent ? 0 : this.contentTokenCounts.get(filePath) ?? 0);
+    }
+
     public getSelectedTokenTotal(): number {
-        const checked = this.getCheckedFiles();
-        return checked.reduce((sum, file) => {
-            const tokens = this.fileTokenCounts.get(file.path);
-            return sum + (tokens ?? 0);
-        }, 0);
+        return this.getCheckedFiles().reduce((sum, file) => sum + this.getFileTokenCount(file.path), 0);
     }
 
+    /**
+     * Сколько файл займет в промпте: diff с текущими настройками контекста плюс содержимое
+     * из source (у удаленных, бинарных, сгенерированных и больших файлов содержимого в промпте нет).
+     */
     private async populateTokenCounts(): Promise<void> {
+        const baseRef = this.getBaseRef();
+        this.fileTokenCounts.clear();
+        this.contentTokenCounts.clear();
+        this.contentKinds.clear();
+        this.fileHunks.clear();
         const tasks = this.changedFiles.map(async (file) => {
-            const absolutePath = path.join(this.workspaceRoot, file.path);
-            const fallback = this.getGitFallbackForFile(file);
-            const tokens = await this.tokenEstimator.estimateFromFile(absolutePath, fallback);
-            this.fileTokenCounts.set(file.path, tokens);
+            const diff = baseRef && this.sourceBranch
+                ? await this.gitService.getFileDiff(baseRef, this.sourceBranch, file, this.diffOptions)
+                : '';
+            this.fileHunks.set(file.path, parseDiff(diff).hunks.map(hunk => ({
+                hunk,
+                tokens: this.tokenEstimator.estimateTokens(formatHunk(hunk))
+            })));
+
+            let contentTokens = 0;
+            let kind: ContentKind = isBinaryDiff(diff) ? 'binary' : 'text';
+            if (file.status !== 'D' && kind === 'text') {
+                const absolutePath = path.join(this.workspaceRoot, file.path);
+                contentTokens = await this.tokenEstimator.estimateFromFile(absolutePath, this.getGitFallbackForFile(file));
+                kind = this.tokenEstimator.getKind(absolutePath) ?? 'text';
+                // В отличие от контекстных файлов, содержимое больших измененных файлов не обрезается, а пропускается
+                if (kind !== 'text') {
+                    contentTokens = 0;
+                }
+            }
+            this.contentKinds.set(file.path, kind);
+            this.contentTokenCounts.set(file.path, contentTokens);
+            const promptDiff = Buffer.byteLength(diff) > this.contentLimits.maxBytes ? truncateContent(diff, this.contentLimits) : diff;
+            this.fileTokenCounts.set(file.path, this.tokenEstimator.estimateTokens(promptDiff) + contentTokens);
         });
         await Promise.all(tasks);
     }
 
     private getGitFallbackForFile(file: ChangedFile): (() => Promise<string>) | undefined {
-        if (file.status === 'D' && this.targetBranch) {
-            return () => this.gitService.getFileContent(this.targetBranch!, file.path);
-        }
         if (this.sourceBranch) {
             return () => this.gitService.getFileContent(this.sourceBranch!, file.path);
         }
@@ -375,6 +780,45 @@ export class TreeViewProvider implements vscode.TreeDataProvider<TreeNode> {
     }
 }
 
+export interface ReviewSettings {
+    diffOptions: DiffOptions;
+    omitPartialContent: boolean;
+    testPairingRules: TestPairingRule[];
+    contentLimits: ContentLimits;
+}
+
+/**
+ * Настройки diff и содержимого файлов для репозитория: в multi-root workspace
+ * у каждой папки они могут быть свои. Контекст и алгоритм diff, выбранные в ревью, важнее настроек.
+ */
+export function getReviewSettings(root: string, options: ReviewOptionsState): ReviewSettings {
+    const config = vscode.workspace.getConfiguration('aiReview', vscode.Uri.file(root));
+    return {
+        diffOptions: {
+            renameDetection: config.get<RenameDetection>('renameDetection', 'renames'),
+            renameThreshold: config.get<number>('renameThreshold', 50),
+            contextLines: options.get('diffContextLines', config.get<number>('diffContextLines', 3)),
+            functionContext: options.get('diffFunctionContext', config.get<boolean>('diffFunctionContext', false)),
+            algorithm: options.get('diffAlgorithm', config.get<DiffAlgorithm>('diffAlgorithm', 'default'))
+        },
+        omitPartialContent: config.get<boolean>('omitContentForPartialHunks', true),
+        testPairingRules: config.get<TestPairingRule[]>('testPairingRules', DEFAULT_TEST_PAIRING_RULES),
+        contentLimits: {
+            maxBytes: config.get<number>('largeFileThresholdKB', 256) * 1024,
+            keepLines: config.get<number>('truncatedFileLines', 100)
+        }
+    };
+}
+
+interface HunkSummary {
+    total: number;
+    selected?: number; // Не задано, если выбран весь файл
+}
+
+interface RefPickItem extends vscode.QuickPickItem {
+    ref: string;
+}
+
 abstract class TreeNode extends vscode.TreeItem {
     abstract checkboxState: vscode.TreeItemCheckboxState;
     tokenCount?: number;
@@ -396,28 +840,77 @@ class FileNode extends TreeNode {
         public readonly file: ChangedFile,
         sourceBranch: string,
         targetBranch: string,
+        mergeBase: string | undefined,
         checkboxState: vscode.TreeItemCheckboxState,
-        tokenCount: number
+        tokenCount: number,
+        hunks: HunkSummary,
+        untested: boolean,
+        contentKind: ContentKind
     ) {
-        super(path.basename(file.path), vscode.TreeItemCollapsibleState.None);
-        this.iconPath = new vscode.ThemeIcon('file');
+        // Раскрывается в hunks, только если их больше одного
+        super(FileNode.getLabel(file), hunks.total > 1 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon(contentKind === 'binary' ? 'file-binary' : 'file');
         this.checkboxState = checkboxState;
         this.tokenCount = tokenCount;
-        this.description = `${this.getStatusLabel(file.status)} · ${formatTokens(tokenCount)}`;
-        this.tooltip = file.path;
+        const similarity = file.similarity !== undefined && file.similarity < 100 ? ` ${file.similarity}%` : '';
+        const partial = hunks.selected !== undefined ? ` · ${hunks.selected}/${hunks.total} hunks` : '';
+        const noTests = untested ? ' · no tests' : '';
+        const kind = contentKind !== 'text' ? ` · ${contentKind}` : '';
+        this.description = `${this.getStatusLabel(file.status)}${similarity}${partial}${noTests}${kind} · ${formatTokens(tokenCount)}`;
+        this.tooltip = (file.oldPath ? `${file.oldPath} → ${file.path}` : file.path)
+            + (untested ? '\nNo test file matches aiReview.testPairingRules' : '')
+            + (contentKind !== 'text' ? '\nSource branch content is not included in the prompt' : '');
         this.command = {
             command: 'aiReview.openDiff',
             title: 'Open Diff',
-            arguments: [file, sourceBranch, targetBranch]
+            arguments: [file, sourceBranch, targetBranch, mergeBase]
         };
     }
 
+    // Переименование внутри одной папки показываем по именам файлов, между папками — со старым путем
+    private static getLabel(file: ChangedFile): string {
+        const name = path.basename(file.path);
+        if (!file.oldPath) {
+            return name;
+        }
+        const oldLabel = path.posix.dirname(file.oldPath) === path.posix.dirname(file.path)
+            ? path.basename(file.oldPath)
+            : file.oldPath;
+        return `${oldLabel} → ${name}`;
+    }
+
     private getStatusLabel(status: string): string {
         switch (status) {
             case 'M': return 'Modified';
             case 'A': return 'Added';
             case 'D': return 'Deleted';
+            case 'R': return 'Renamed';
+            case 'C': return 'Copied';
+            case 'U': return 'Unmerged';
+            case '?': return 'Untracked';
             default: return status;
         }
     }
 }
+
+class HunkNode extends TreeNode {
+    checkboxState: vscode.TreeItemCheckboxState;
+    tokenCount: number;
+    constructor(
+        public readonly filePath: string,
+        public readonly index: number,
+        hunk: DiffHunk,
+        checkboxState: vscode.TreeItemCheckboxState,
+        tokenCount: number,
+        command?: vscode.Command
+    ) {
+        // Заголовок без имени функции, которое git дописывает после второго @@
+        super(hunk.header.replace(/^(@@[^@]*@@).*$/, '$1'), vscode.TreeItemCollapsibleState.None);
+        this.iconPath = new vscode.ThemeIcon('diff');
+        this.checkboxState = checkboxState;
+        this.tokenCount = tokenCount;
+        this.description = `${previewHunk(hunk)} · ${formatTokens(tokenCount)}`;
+        this.tooltip = formatHunk(hunk);
+        this.command = command;
+    }
+}
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { ImportGraph, selectWithinTokens, suggestRelatedFiles } from './contextSuggestions';
+
+describe('context suggestions', () => {
+    // changed.ts -> dep.ts -> deep.ts -> deeper.ts; user.ts -> changed.ts; app.ts -> user.ts
+    const sources: Record<string, string> = {
+        'src/changed.ts': "import { dep } from './dep';",
+        'src/dep.ts': "import { deep } from './deep';",
+        'src/deep.ts': "import { deeper } from './deeper';",
+        'src/deeper.ts': '',
+        'src/user.ts': "import { changed } from './changed';",
+        'src/app.ts': "import { user } from './user';\nimport { dep } from './dep';",
+        'README.md': "import { changed } from './src/changed';"
+    };
+    const tokens: Record<string, number> = { 'src/dep.ts': 500, 'src/user.ts': 100, 'src/deep.ts': 50, 'src/app.ts': 300 };
+    const tokensOf = (filePath: string) => tokens[filePath] ?? 10;
+
+    async function buildGraph(): Promise<ImportGraph> {
+        return ImportGraph.build(Object.keys(sources), async filePath => sources[filePath]);
+    }
+
+    it('builds import edges for files with a parser', async () => {
+        const graph = await buildGraph();
+
+        assert.deepStrictEqual(graph.getImports('src/app.ts').sort(), ['src/dep.ts', 'src/user.ts']);
+        assert.deepStrictEqual(graph.getImporters('src/changed.ts'), ['src/user.ts']);
+        assert.deepStrictEqual(graph.getImports('README.md'), []);
+    });
+
+    it('ranks dependencies and dependents by distance and token cost', async () => {
+        const suggestions = await suggestRelatedFiles(await buildGraph(), ['src/changed.ts'], { tokensOf });
+
+        assert.deepStrictEqual(
+            suggestions.map(s => [s.path, s.relation, s.distance]),
+            [
+                ['src/user.ts', 'dependent', 1],
+                ['src/dep.ts', 'dependency', 1],
+                ['src/deep.ts', 'dependency', 2],
+                ['src/app.ts', 'dependent', 2]
+            ]
+        );
+        assert.ok(suggestions.every(s => s.via === 'src/changed.ts'));
+    });
+
+    it('respects the maximum distance and skips changed files', async () => {
+        const suggestions = await suggestRelatedFiles(await buildGraph(), ['src/changed.ts', 'src/dep.ts'], { tokensOf, maxDistance: 1 });
+
+        assert.deepStrictEqual(suggestions.map(s => s.path), ['src/deep.ts', 'src/user.ts', 'src/app.ts']);
+    });
+
+    it('selects suggestions that fit into the token limit', async () => {
+        const suggestions = await suggestRelatedFiles(await buildGraph(), ['src/changed.ts'], { tokensOf });
+
+        assert.deepStrictEqual(selectWithinTokens(suggestions, 400).map(s => s.path), ['src/user.ts', 'src/deep.ts']);
+    });
+});
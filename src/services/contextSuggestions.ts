@@ -0,0 +1,133 @@
+import { getImportParser } from './importParsers';
+
+export type SuggestionRelation = 'dependency' | 'dependent';
+
+export interface ContextSuggestion {
+    path: string;
+    relation: SuggestionRelation; // dependency — его импортирует измененный файл, dependent — он импортирует измененный
+    distance: number; // Число ребер графа до ближайшего измененного файла
+    via: string; // Измененный файл, от которого найдена связь
+    tokens: number;
+}
+
+export interface SuggestionOptions {
+    maxDistance?: number;
+    limit?: number;
+    tokensOf: (filePath: string) => number | Promise<number>;
+}
+
+/**
+ * Граф импортов проекта. Строится по файлам, для которых есть парсер в importParsers.
+ */
+export class ImportGraph {
+    private imports = new Map<string, Set<string>>();
+    private importers = new Map<string, Set<string>>();
+
+    /**
+     * @param files пути относительно корня проекта, через /
+     * @param readFile содержимое файла; undefined, если файл не прочитать
+     */
+    public static async build(files: string[], readFile: (filePath: string) => Promise<string | undefined>): Promise<ImportGraph> {
+        const graph = new ImportGraph();
+        const fileSet = new Set(files);
+
+        for (const file of files) {
+            const parser = getImportParser(file);
+            if (!parser) continue;
+
+            const content = await readFile(file);
+            if (content === undefined) continue;
+
+            for (const specifier of parser.parseImports(content)) {
+                const target = parser.resolveImport(specifier, file, fileSet);
+                if (target && target !== file) {
+                    graph.addEdge(file, target);
+                }
+            }
+        }
+        return graph;
+    }
+
+    public addEdge(from: string, to: string): void {
+        getOrCreate(this.imports, from).add(to);
+        getOrCreate(this.importers, to).add(from);
+    }
+
+    public getImports(filePath: string): string[] {
+        return Array.from(this.imports.get(filePath) ?? []);
+    }
+
+    public getImporters(filePath: string): string[] {
+        return Array.from(this.importers.get(filePath) ?? []);
+    }
+}
+
+function getOrCreate(map: Map<string, Set<string>>, key: string): Set<string> {
+    let set = map.get(key);
+    if (!set) {
+        set = new Set();
+        map.set(key, set);
+    }
+    return set;
+}
+
+/**
+ * Файлы, связанные с измененными через импорты: модули, от которых они зависят, и модули,
+ * которые зависят от них. Ближние идут первыми, при равном расстоянии — более дешевые по токенам.
+ */
+export async function suggestRelatedFiles(
+    graph: ImportGraph,
+    changedPaths: string[],
+    options: SuggestionOptions
+): Promise<ContextSuggestion[]> {
+    const maxDistance = options.maxDistance ?? 2;
+    const changed = new Set(changedPaths);
+    const found = new Map<string, Omit<ContextSuggestion, 'tokens'>>();
+
+    const walk = (relation: SuggestionRelation, next: (filePath: string) => string[]) => {
+        // Обход в ширину от всех измененных файлов сразу, поэтому расстояние — до ближайшего из них
+        let frontier = changedPaths.map(p => ({ path: p, via: p }));
+        const visited = new Set(changedPaths);
+        for (let distance = 1; distance <= maxDistance && frontier.length > 0; distance++) {
+            const nextFrontier: typeof frontier = [];
+            for (const { path: current, via } of frontier) {
+                for (const neighbour of next(current)) {
+                    if (visited.has(neighbour)) continue;
+                    visited.add(neighbour);
+                    nextFrontier.push({ path: neighbour, via });
+
+                    const existing = found.get(neighbour);
+                    if (!changed.has(neighbour) && (!existing || existing.distance > distance)) {
+                        found.set(neighbour, { path: neighbour, relation, distance, via });
+                    }
+                }
+            }
+            frontier = nextFrontier;
+        }
+    };
+    walk('dependency', p => graph.getImports(p));
+    walk('dependent', p => graph.getImporters(p));
+
+    const suggestions: ContextSuggestion[] = [];
+    for (const suggestion of found.values()) {
+        suggestions.push({ ...suggestion, tokens: await options.tokensOf(suggestion.path) });
+    }
+    suggestions.sort((a, b) => a.distance - b.distance || a.tokens - b.tokens || a.path.localeCompare(b.path));
+    return options.limit !== undefined ? suggestions.slice(0, options.limit) : suggestions;
+}
+
+/**
+ * Подсказки в порядке ранга, которые вместе укладываются в maxTokens.
+ * Слишком большая подсказка пропускается, следующие за ней еще могут поместиться.
+ */
+export function selectWithinTokens(suggestions: ContextSuggestion[], maxTokens: number): ContextSuggestion[] {
+    const selected: ContextSuggestion[] = [];
+    let used = 0;
+    for (const suggestion of suggestions) {
+        if (used + suggestion.tokens <= maxTokens) {
+            selected.push(suggestion);
+            used += suggestion.tokens;
+        }
+    }
+    return selected;
+}
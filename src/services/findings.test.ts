@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { getFindingsContract, parseFindings } from './findings';
+
+describe('findings', () => {
+    it('parses a response that follows the JSON contract', () => {
+        const response = JSON.stringify({
+            findings: [{
+                file: 'src/app.ts',
+                startLine: 42,
+                endLine: 45,
+                severity: 'major',
+                category: 'correctness',
+                message: 'Off by one',
+                suggestedPatch: '-i <= n\n+i < n'
+            }]
+        });
+
+        assert.deepStrictEqual(parseFindings(response), {
+            findings: [{
+                file: 'src/app.ts',
+                startLine: 42,
+                endLine: 45,
+                severity: 'major',
+                category: 'correctness',
+                message: 'Off by one',
+                suggestedPatch: '-i <= n\n+i < n'
+            }],
+            violations: [],
+            repairs: []
+        });
+    });
+
+    it('repairs common JSON mistakes without touching string values', () => {
+        const response = [
+            'Here are the findings:',
+            '```json',
+            '{',
+            '  // main issue',
+            "  findings: [",
+            "    {'file': 'src/a.ts', startLine: 3, severity: 'minor', category: 'style', message: 'Use const, not let',",
+            '     "suggestedPatch": "-let x = [1,]',
+            '+const x = [1,]"}',
+            '    {"file": "src/b.ts", "startLine": "7", "severity": "high", "category": "security", "message": "Raw SQL", "fixed": True,},',
+            '  ],',
+            '}',
+            '```'
+        ].join('\n');
+
+        const result = parseFindings(response);
+        assert.deepStrictEqual(result.findings.map(f => [f.file, f.startLine, f.severity]), [
+            ['src/a.ts', 3, 'minor'],
+            ['src/b.ts', 7, 'major']
+        ]);
+        assert.strictEqual(result.findings[0].suggestedPatch, '-let x = [1,]\n+const x = [1,]');
+        assert.deepStrictEqual(result.violations, [{ path: 'findings[1].fixed', message: 'Unknown property' }]);
+        for (const repair of ['code fence or text around the JSON', 'comments', 'unquoted keys', 'single-quoted strings',
+            'line breaks inside strings', 'missing commas', 'trailing commas', 'Python literals', 'severity "high" read as "major"']) {
+            assert.ok(result.repairs.includes(repair), repair);
+        }
+    });
+
+    it('reports schema violations and drops findings with invalid required fields', () => {
+        const response = JSON.stringify([
+            { file: 'src/a.ts', startLine: 0, severity: 'major', category: 'tests', message: 'Missing test' },
+            { file: 'src/b.ts', startLine: 5, endLine: 2, severity: 'urgent', category: 'tests', message: 'Flaky' },
+            { file: 'src/c.ts', startLine: 9, endLine: 2, severity: 'info', category: 'Style', message: 'Naming', suggestedPatch: 42 },
+            'not an object'
+        ]);
+
+        const result = parseFindings(response);
+        assert.deepStrictEqual(result.findings, [
+            { file: 'src/c.ts', startLine: 9, severity: 'info', category: 'style', message: 'Naming' }
+        ]);
+        assert.deepStrictEqual(result.violations, [
+            { path: 'findings[0].startLine', message: 'Expected a positive integer' },
+            { path: 'findings[1].severity', message: 'Expected one of critical, major, minor, info' },
+            { path: 'findings[1].endLine', message: 'Expected a line number not less than startLine' },
+            { path: 'findings[2].endLine', message: 'Expected a line number not less than startLine' },
+            { path: 'findings[2].suggestedPatch', message: 'Expected a string' },
+            { path: 'findings[3]', message: 'Expected an object' }
+        ]);
+    });
+
+    it('parses the XML contract', () => {
+        const response = [
+            '<findings>',
+            '  <finding file="src/q.ts" start_line="10" end_line="12" severity="critical" category="security">',
+            '    <message>Query built with &quot;+&quot; &amp; user input</message>',
+            '    <suggested_patch><![CDATA[',
+            '-db.query("SELECT " + id)',
+            '+db.query("SELECT ?", [id])',
+            '    ]]></suggested_patch>',
+            '  </finding>',
+            '  <finding file="src/r.ts" severity="minor" category="style"><message>Typo</message></finding>',
+            '</findings>'
+        ].join('\n');
+
+        const result = parseFindings(response);
+        assert.deepStrictEqual(result.findings, [{
+            file: 'src/q.ts',
+            startLine: 10,
+            endLine: 12,
+            severity: 'critical',
+            category: 'security',
+            message: 'Query built with "+" & user input',
+            suggestedPatch: '-db.query("SELECT " + id)\n+db.query("SELECT ?", [id])'
+        }]);
+        assert.deepStrictEqual(result.violations, [{ path: 'findings[1].startLine', message: 'Required' }]);
+    });
+
+    it('reports a response without findings', () => {
+        assert.deepStrictEqual(parseFindings('Looks good to me.').violations, [{ path: '', message: 'No JSON found in the response' }]);
+        assert.deepStrictEqual(parseFindings('Looks good', 'xml').violations, [{ path: '', message: 'No <findings> element found in the response' }]);
+        assert.deepStrictEqual(parseFindings('{"findings": []}'), { findings: [], violations: [], repairs: [] });
+    });
+
+    it('describes the schema in the contract', () => {
+        const json = getFindingsContract('json');
+        assert.ok(json.includes('"suggestedPatch"'));
+        assert.ok(json.includes('critical, major, minor, info'));
+        assert.ok(getFindingsContract('xml').includes('<finding file="src/app.ts" start_line="42"'));
+    });
+});
@@ -0,0 +1,362 @@
+import { FindingSeverity, FindingsFormat, ReviewFinding } from '../types';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'major', 'minor', 'info'];
+
+// Категории, которые предлагаются модели; другие значения допустимы
+export const FINDING_CATEGORIES = ['correctness', 'security', 'performance', 'maintainability', 'style', 'tests', 'documentation'];
+
+// Как модели часто называют уровни вместо наших
+const SEVERITY_ALIASES: Record<string, FindingSeverity> = {
+    blocker: 'critical',
+    high: 'major',
+    error: 'major',
+    medium: 'minor',
+    warning: 'minor',
+    low: 'info',
+    nit: 'info',
+    note: 'info'
+};
+
+const FINDING_FIELDS = ['file', 'startLine', 'endLine', 'severity', 'category', 'message', 'suggestedPatch'];
+
+/**
+ * Текст контракта ответа, который PromptGenerator добавляет в конец промпта:
+ * схема замечаний, пример и правила заполнения полей.
+ */
+export function getFindingsContract(format: FindingsFormat): string {
+    const rules = [
+        '- file: the path exactly as it appears in this prompt.',
+        '- startLine/endLine: line numbers in the source branch version of the file; omit endLine for a single line.',
+        `- severity: one of ${FINDING_SEVERITIES.join(', ')}.`,
+        `- category: one of ${FINDING_CATEGORIES.join(', ')}, or another short lowercase word.`,
+        '- message: what is wrong and why it matters.',
+        '- suggestedPatch: optional unified diff that fixes the issue.'
+    ];
+
+    if (format === 'xml') {
+        return [
+            'Respond only with XML in the following format, without any text before or after it:',
+            '',
+            '<findings>',
+            '  <finding file="src/app.ts" start_line="42" end_line="45" severity="major" category="correctness">',
+            '    <message>What is wrong and why it matters.</message>',
+            '    <suggested_patch><![CDATA[',
+            '--- a/src/app.ts',
+            '+++ b/src/app.ts',
+            '@@ -42,1 +42,1 @@',
+            '-old line',
+            '+new line',
+            '    ]]></suggested_patch>',
+            '  </finding>',
+            '</findings>',
+            '',
+            ...rules.map(rule => rule.replace('startLine/endLine', 'start_line/end_line').replace('suggestedPatch', 'suggested_patch')),
+            '- If there are no issues, respond with <findings></findings>.'
+        ].join('\n');
+    }
+
+    const example = {
+        findings: [{
+            file: 'src/app.ts',
+            startLine: 42,
+            endLine: 45,
+            severity: 'major',
+            category: 'correctness',
+            message: 'What is wrong and why it matters.',
+            suggestedPatch: '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -42,1 +42,1 @@\n-old line\n+new line'
+        }]
+    };
+    return [
+        'Respond only with a JSON object in the following format, without any text before or after it:',
+        '',
+        JSON.stringify(example, null, 2),
+        '',
+        ...rules,
+        '- If there are no issues, respond with {"findings": []}.'
+    ].join('\n');
+}
+
+export interface FindingViolation {
+    path: string; // Где нарушение: findings[2].severity; пустой, если ответ целиком
+    message: string;
+}
+
+export interface FindingsParseResult {
+    findings: ReviewFinding[]; // Только прошедшие проверку
+    violations: FindingViolation[]; // Замечания с ошибкой в обязательном поле отбрасываются
+    repairs: string[]; // Что пришлось исправить в JSON, чтобы его разобрать
+}
+
+/**
+ * Разбирает ответ модели по схеме findings. Ответ может быть обернут в текст или code fence;
+ * типичные ошибки JSON (комментарии, висячие запятые, одинарные кавычки, ключи без кавычек,
+ * переводы строк внутри строк, True/False/None) исправляются. Формат без явного указания
+ * определяется по наличию <findings>.
+ */
+export function parseFindings(text: string, format?: FindingsFormat): FindingsParseResult {
+    const repairs = new Set<string>();
+    const violations: FindingViolation[] = [];
+    const items = (format ?? (/<findings[\s>]/.test(text) ? 'xml' : 'json')) === 'xml'
+        ? readXmlFindings(text, violations)
+        : readJsonFindings(text, violations, repairs);
+
+    const findings: ReviewFinding[] = [];
+    items?.forEach((item, index) => {
+        const finding = validateFinding(item, `findings[${index}]`, violations, repairs);
+        if (finding) {
+            findings.push(finding);
+        }
+    });
+    return { findings, violations, repairs: Array.from(repairs) };
+}
+
+function readJsonFindings(text: string, violations: FindingViolation[], repairs: Set<string>): any[] | undefined {
+    const source = extractJson(text);
+    if (source === undefined) {
+        violations.push({ path: '', message: 'No JSON found in the response' });
+        return undefined;
+    }
+    if (source !== text.trim()) {
+        repairs.add('code fence or text around the JSON');
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(source);
+    } catch {
+        const repaired = repairJson(source);
+        try {
+            data = JSON.parse(repaired.text);
+            repaired.repairs.forEach(repair => repairs.add(repair));
+        } catch (e: any) {
+            violations.push({ path: '', message: `Invalid JSON: ${e.message}` });
+            return undefined;
+        }
+    }
+
+    // Вместо { findings: [...] } модели иногда отвечают массивом или одним замечанием
+    if (Array.isArray(data)) {
+        repairs.add('bare array instead of {"findings": [...]}');
+        return data;
+    }
+    if (Array.isArray(data?.findings)) {
+        return data.findings;
+    }
+    if (data && typeof data === 'object' && 'file' in data) {
+        repairs.add('single finding instead of {"findings": [...]}');
+        return [data];
+    }
+    violations.push({ path: 'findings', message: 'Expected an array of findings' });
+    return undefined;
+}
+
+// JSON из code fence, а если его нет — от первой { или [ до последней } или ]
+function extractJson(text: string): string | undefined {
+    const fenced = /^\s*(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n\s*\1\s*$/m.exec(text);
+    if (fenced && /^\s*[[{]/.test(fenced[2])) {
+        return fenced[2].trim();
+    }
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    return start >= 0 && end > start ? text.substring(start, end + 1) : undefined;
+}
+
+/**
+ * Проход по символам с учетом строк: исправления не трогают содержимое строковых значений
+ * (в suggestedPatch могут быть и запятые перед скобками, и //).
+ */
+function repairJson(source: string): { text: string; repairs: string[] } {
+    const repairs = new Set<string>();
+    let result = '';
+    let i = 0;
+
+    const lastSignificant = () => result.trimEnd().slice(-1);
+    // Между двумя значениями подряд (}{, "a" "b") модель забыла запятую
+    const separate = () => {
+        if (['}', ']', '"'].includes(lastSignificant())) {
+            result += ',';
+            repairs.add('missing commas');
+        }
+    };
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (char === '"' || char === '\'') {
+            separate();
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== char) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    value += char === '\'' && source[j + 1] === '\'' ? '\'' : source.substring(j, j + 2);
+                    j += 2;
+                    continue;
+                }
+                const escaped = { '\n': '\\n', '\r': '\\r', '\t': '\\t' }[source[j]];
+                if (escaped) {
+                    repairs.add('line breaks inside strings');
+                }
+                value += escaped ?? (source[j] === '"' ? '\\"' : source[j]);
+                j++;
+            }
+            if (char === '\'') {
+                repairs.add('single-quoted strings');
+            }
+            result += `"${value}"`;
+            i = j + 1;
+            continue;
+        }
+
+        if (char === '/' && (source[i + 1] === '/' || source[i + 1] === '*')) {
+            const end = source[i + 1] === '/' ? source.indexOf('\n', i) : source.indexOf('*/', i + 2) + 2;
+            i = end <= 0 ? source.length : end;
+            repairs.add('comments');
+            continue;
+        }
+
+        if (char === ',' && /^\s*[}\]]/.test(source.substring(i + 1))) {
+            repairs.add('trailing commas');
+            i++;
+            continue;
+        }
+
+        const word = /^[A-Za-z_$][\w$]*/.exec(source.substring(i))?.[0];
+        if (word) {
+            i += word.length;
+            if (/^\s*:/.test(source.substring(i))) {
+                separate();
+                result += JSON.stringify(word);
+                repairs.add('unquoted keys');
+            } else if (word === 'True' || word === 'False' || word === 'None') {
+                result += { True: 'true', False: 'false', None: 'null' }[word];
+                repairs.add('Python literals');
+            } else {
+                result += word;
+            }
+            continue;
+        }
+
+        if (char === '{' || char === '[') {
+            separate();
+        }
+        result += char;
+        i++;
+    }
+    return { text: result, repairs: Array.from(repairs) };
+}
+
+// Элементы <finding> как объекты с теми же полями, что в JSON
+function readXmlFindings(text: string, violations: FindingViolation[]): any[] | undefined {
+    const root = /<findings\b[^>]*>([\s\S]*?)<\/findings>|<findings\b[^>]*\/>/.exec(text);
+    if (!root) {
+        violations.push({ path: '', message: 'No <findings> element found in the response' });
+        return undefined;
+    }
+
+    const items: any[] = [];
+    for (const match of (root[1] ?? '').matchAll(/<finding\b([^>]*?)(?:\/>|>([\s\S]*?)<\/finding>)/g)) {
+        const attributes: Record<string, string> = {};
+        for (const [, name, double, single] of match[1].matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+            attributes[name] = unescapeXml(double ?? single);
+        }
+        const child = (name: string) => {
+            const element = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(match[2] ?? '');
+            if (!element) return undefined;
+            const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(element[1]);
+            return cdata ? cdata[1].replace(/^\n/, '').trimEnd() : unescapeXml(element[1].trim());
+        };
+        items.push({
+            file: attributes.file,
+            startLine: attributes.start_line,
+            endLine: attributes.end_line,
+            severity: attributes.severity,
+            category: attributes.category,
+            message: child('message'),
+            suggestedPatch: child('suggested_patch')
+        });
+    }
+    return items;
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
+
+function validateFinding(item: any, path: string, violations: FindingViolation[], repairs: Set<string>): ReviewFinding | undefined {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+        violations.push({ path, message: 'Expected an object' });
+        return undefined;
+    }
+    const errors = violations.length;
+    const fail = (field: string, message: string) => violations.push({ path: `${path}.${field}`, message });
+
+    // Номера строк строкой ("42") принимаем: в XML атрибуты всегда строки
+    const toLine = (value: unknown): number | undefined => {
+        const line = typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value) : value;
+        return typeof line === 'number' && Number.isInteger(line) && line > 0 ? line : undefined;
+    };
+    const text = (field: string): string | undefined => {
+        const value = item[field];
+        if (typeof value !== 'string' || !value.trim()) {
+            fail(field, value === undefined || value === null ? 'Required' : 'Expected a non-empty string');
+            return undefined;
+        }
+        return value.trim();
+    };
+
+    const file = text('file');
+    const message = text('message');
+    const category = text('category')?.toLowerCase();
+
+    const startLine = toLine(item.startLine);
+    if (startLine === undefined) {
+        fail('startLine', item.startLine === undefined ? 'Required' : 'Expected a positive integer');
+    }
+
+    let severity: FindingSeverity | undefined;
+    const rawSeverity = typeof item.severity === 'string' ? item.severity.trim().toLowerCase() : undefined;
+    if (rawSeverity && (FINDING_SEVERITIES as string[]).includes(rawSeverity)) {
+        severity = rawSeverity as FindingSeverity;
+    } else if (rawSeverity && SEVERITY_ALIASES[rawSeverity]) {
+        severity = SEVERITY_ALIASES[rawSeverity];
+        repairs.add(`severity "${item.severity}" read as "${severity}"`);
+    } else {
+        fail('severity', item.severity === undefined ? 'Required' : `Expected one of ${FINDING_SEVERITIES.join(', ')}`);
+    }
+
+    // Ошибки в необязательных полях не отбрасывают замечание, поле просто опускается
+    const required = violations.length === errors;
+    let endLine = item.endLine === undefined || item.endLine === null ? undefined : toLine(item.endLine);
+    if (item.endLine !== undefined && item.endLine !== null && (endLine === undefined || startLine !== undefined && endLine < startLine)) {
+        fail('endLine', 'Expected a line number not less than startLine');
+        endLine = undefined;
+    }
+    let suggestedPatch: string | undefined = item.suggestedPatch ?? undefined;
+    if (suggestedPatch !== undefined && typeof suggestedPatch !== 'string') {
+        fail('suggestedPatch', 'Expected a string');
+        suggestedPatch = undefined;
+    }
+    for (const key of Object.keys(item)) {
+        if (!FINDING_FIELDS.includes(key)) {
+            fail(key, 'Unknown property');
+        }
+    }
+
+    if (!required) {
+        return undefined;
+    }
+    return {
+        file: file!,
+        startLine: startLine!,
+        ...(endLine !== undefined && endLine !== startLine ? { endLine } : {}),
+        severity: severity!,
+        category: category!,
+        message: message!,
+        ...(suggestedPatch ? { suggestedPatch } : {})
+    };
+}
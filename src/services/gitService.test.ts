@@ -2,7 +2,7 @@ import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as cp from 'child_process';
-import { GitService } from './gitService';
+import { GitService, WORKING_TREE_REF, INDEX_REF } from './gitService';
 
 // Helper to create a temporary git repository for testing
 async function createTestGitRepo(): Promise<string> {
@@ -75,6 +75,60 @@ describe('GitService', () => {
         });
     });
 
+    describe('getRefs()', () => {
+        it('should list local branches, remote branches and tags separately', async () => {
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            cp.execSync('git checkout master', { cwd: testRepoPath });
+            cp.execSync('git tag v1.0.0', { cwd: testRepoPath });
+            // Remote-tracking refs without a real remote
+            cp.execSync('git update-ref refs/remotes/origin/main HEAD', { cwd: testRepoPath });
+            cp.execSync('git symbolic-ref refs/remotes/origin/HEAD refs/remotes/origin/main', { cwd: testRepoPath });
+
+            const refs = await gitService.getRefs();
+
+            assert.deepStrictEqual(refs.local, ['feature', 'master']);
+            assert.deepStrictEqual(refs.remote, ['origin/main'], 'Should skip the origin/HEAD symref');
+            assert.deepStrictEqual(refs.tags, ['v1.0.0']);
+        });
+    });
+
+    describe('resolveCommit()', () => {
+        it('should resolve branches, tags and revision expressions', async () => {
+            const head = cp.execSync('git rev-parse HEAD', { cwd: testRepoPath }).toString().trim();
+            cp.execSync('git tag v1.0.0', { cwd: testRepoPath });
+
+            assert.strictEqual(await gitService.resolveCommit('master'), head);
+            assert.strictEqual(await gitService.resolveCommit('v1.0.0'), head);
+            assert.strictEqual(await gitService.resolveCommit(head.substring(0, 7)), head);
+            assert.strictEqual(await gitService.resolveCommit('HEAD~0'), head);
+        });
+
+        it('should reject unknown refs and option-like input', async () => {
+            assert.strictEqual(await gitService.resolveCommit('no-such-branch'), undefined);
+            assert.strictEqual(await gitService.resolveCommit('master;echo hacked'), undefined);
+            assert.strictEqual(await gitService.resolveCommit('$(whoami)'), undefined);
+            assert.strictEqual(await gitService.resolveCommit('--all'), undefined);
+        });
+
+        it('should pass refs and paths to git without a shell', async () => {
+            // Допустимое имя тега, которое в shell создало бы файл pwned в корне репозитория
+            const tag = 'x;touch${IFS}pwned';
+            cp.execFileSync('git', ['tag', tag], { cwd: testRepoPath });
+            const fileName = '$(touch pwned-too).txt';
+            fs.writeFileSync(path.join(testRepoPath, fileName), 'content\n');
+            cp.execFileSync('git', ['add', '.'], { cwd: testRepoPath });
+            cp.execFileSync('git', ['commit', '-m', 'Odd names'], { cwd: testRepoPath });
+
+            assert.ok((await gitService.getRefs()).tags.includes(tag));
+            assert.ok(await gitService.resolveCommit(tag));
+            assert.ok(await gitService.getMergeBase(tag, 'master'));
+            assert.strictEqual(await gitService.getFileContent('master', fileName), 'content');
+            assert.ok((await gitService.getFileDiff(tag, 'master', fileName)).includes('+content'));
+            assert.ok(!fs.existsSync(path.join(testRepoPath, 'pwned')), 'Ref must not be run by a shell');
+            assert.ok(!fs.existsSync(path.join(testRepoPath, 'pwned-too')), 'Path must not be run by a shell');
+        });
+    });
+
     describe('getChangedFiles()', () => {
         it('should return empty array when no changes', async () => {
             const files = await gitService.getChangedFiles('master', 'master');
@@ -124,6 +178,50 @@ describe('GitService', () => {
             assert.strictEqual(files[0].status, 'D', 'Status should be Deleted');
         });
 
+        it('should report renamed files with their old path and similarity', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'old-name.txt'), 'line 1\nline 2\nline 3\nline 4\n');
+            cp.execSync('git add old-name.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add file"', { cwd: testRepoPath });
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            cp.execSync('git mv old-name.txt new-name.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Rename file"', { cwd: testRepoPath });
+
+            const files = await gitService.getChangedFiles('master', 'feature');
+
+            assert.strictEqual(files.length, 1, 'Should have 1 changed file');
+            assert.strictEqual(files[0].status, 'R', 'Status should be Renamed');
+            assert.strictEqual(files[0].path, 'new-name.txt', 'Path should be the new path');
+            assert.strictEqual(files[0].oldPath, 'old-name.txt', 'Old path should be kept');
+            assert.strictEqual(files[0].similarity, 100);
+        });
+
+        it('should report renames as delete plus add when detection is off', async () => {
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            cp.execSync('git mv README.md MOVED.md', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Rename README"', { cwd: testRepoPath });
+
+            const files = await gitService.getChangedFiles('master', 'feature', { renameDetection: 'off' });
+
+            assert.deepStrictEqual(files.map(f => `${f.status} ${f.path}`).sort(), ['A MOVED.md', 'D README.md']);
+        });
+
+        it('should detect copies when enabled', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'source.txt'), 'line 1\nline 2\nline 3\nline 4\n');
+            cp.execSync('git add source.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add source"', { cwd: testRepoPath });
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            fs.copyFileSync(path.join(testRepoPath, 'source.txt'), path.join(testRepoPath, 'copy.txt'));
+            fs.appendFileSync(path.join(testRepoPath, 'source.txt'), 'line 5\n');
+            cp.execSync('git add .', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Copy source"', { cwd: testRepoPath });
+
+            const files = await gitService.getChangedFiles('master', 'feature', { renameDetection: 'copies' });
+            const copy = files.find(f => f.path === 'copy.txt');
+
+            assert.strictEqual(copy?.status, 'C', 'Status should be Copied');
+            assert.strictEqual(copy?.oldPath, 'source.txt');
+        });
+
         it('should work with unpushed local branches', async () => {
             // Create a local branch without pushing (simulates user's issue)
             cp.execSync('git checkout -b local-feature', { cwd: testRepoPath });
@@ -153,6 +251,70 @@ describe('GitService', () => {
             assert.ok(diff.includes('Test Repo'), 'Diff should contain old content');
         });
 
+        it('should return a rename diff when given the renamed file', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'old-name.txt'), 'line 1\nline 2\nline 3\nline 4\n');
+            cp.execSync('git add old-name.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add file"', { cwd: testRepoPath });
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            cp.execSync('git mv old-name.txt new-name.txt', { cwd: testRepoPath });
+            fs.appendFileSync(path.join(testRepoPath, 'new-name.txt'), 'line 5\n');
+            cp.execSync('git commit -am "Rename and edit"', { cwd: testRepoPath });
+
+            const [renamed] = await gitService.getChangedFiles('master', 'feature');
+            const diff = await gitService.getFileDiff('master', 'feature', renamed);
+
+            assert.ok(diff.includes('rename from old-name.txt'), 'Diff should record the old path');
+            assert.ok(diff.includes('rename to new-name.txt'), 'Diff should record the new path');
+            assert.ok(diff.includes('+line 5'), 'Diff should contain the edit');
+            assert.ok(!diff.includes('-line 1'), 'Diff should not delete the whole old file');
+        });
+
+        it('should return only the copy when given a copied file', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'source.txt'), 'line 1\nline 2\nline 3\nline 4\n');
+            cp.execSync('git add source.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add source"', { cwd: testRepoPath });
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            fs.copyFileSync(path.join(testRepoPath, 'source.txt'), path.join(testRepoPath, 'copy.txt'));
+            fs.appendFileSync(path.join(testRepoPath, 'source.txt'), 'source edit\n');
+            fs.appendFileSync(path.join(testRepoPath, 'copy.txt'), 'copy edit\n');
+            cp.execSync('git add .', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Copy source"', { cwd: testRepoPath });
+
+            const options = { renameDetection: 'copies' as const };
+            const files = await gitService.getChangedFiles('master', 'feature', options);
+            const copy = files.find(f => f.path === 'copy.txt')!;
+            const diff = await gitService.getFileDiff('master', 'feature', copy, options);
+
+            assert.strictEqual(copy.status, 'C');
+            assert.ok(diff.startsWith('diff --git a/source.txt b/copy.txt'), 'Diff should start with the copy section');
+            assert.ok(diff.includes('copy from source.txt'), 'Diff should record the source');
+            assert.ok(diff.includes('+copy edit'), 'Diff should contain the edit of the copy');
+            assert.ok(!diff.includes('source edit'), 'Diff should not contain the edit of the source');
+        });
+
+        it('should honour context lines and function context', async () => {
+            const body = Array.from({ length: 10 }, (_, i) => `    step(${i});`);
+            const source = (lines: string[]) => ['int run() {', ...lines, '}', ''].join('\n');
+            fs.writeFileSync(path.join(testRepoPath, 'run.c'), source(body));
+            cp.execSync('git add run.c', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add run"', { cwd: testRepoPath });
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            body[5] = '    step(42);';
+            fs.writeFileSync(path.join(testRepoPath, 'run.c'), source(body));
+            cp.execSync('git commit -am "Change step"', { cwd: testRepoPath });
+
+            const noContext = await gitService.getFileDiff('master', 'feature', 'run.c', { contextLines: 0 });
+            assert.ok(noContext.includes('+    step(42);'));
+            assert.ok(!noContext.includes('     step(4);'), 'No unchanged lines with -U0');
+
+            const functionContext = await gitService.getFileDiff('master', 'feature', 'run.c', { contextLines: 0, functionContext: true });
+            assert.ok(functionContext.includes(' int run() {'), 'Function header should be included');
+            assert.ok(functionContext.includes('     step(0);'), 'Whole function body should be included');
+
+            const patience = await gitService.getFileDiff('master', 'feature', 'run.c', { algorithm: 'patience' });
+            assert.ok(patience.includes('+    step(42);'));
+        });
+
         it('should return empty string for unchanged file', async () => {
             const diff = await gitService.getFileDiff('master', 'master', 'README.md');
 
@@ -190,6 +352,217 @@ describe('GitService', () => {
         });
     });
 
+    describe('getMergeBase()', () => {
+        it('should hide newer target commits when diffing from the merge-base', async () => {
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'feature.txt'), 'feature\n');
+            cp.execSync('git add feature.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add feature file"', { cwd: testRepoPath });
+            cp.execSync('git checkout master', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'main-only.txt'), 'main\n');
+            cp.execSync('git add main-only.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Move master forward"', { cwd: testRepoPath });
+
+            const mergeBase = await gitService.getMergeBase('master', 'feature');
+            const direct = await gitService.getChangedFiles('master', 'feature');
+            const threeDot = await gitService.getChangedFiles(mergeBase!, 'feature');
+
+            assert.ok(direct.some(f => f.path === 'main-only.txt'), 'Two-dot diff shows master commits as reverse changes');
+            assert.deepStrictEqual(threeDot.map(f => f.path), ['feature.txt']);
+        });
+
+        it('should use HEAD for uncommitted sources', async () => {
+            const head = cp.execSync('git rev-parse HEAD', { cwd: testRepoPath }).toString().trim();
+
+            const mergeBase = await gitService.getMergeBase('master', WORKING_TREE_REF);
+
+            assert.strictEqual(mergeBase, head);
+        });
+
+        it('should return undefined for unknown refs', async () => {
+            const mergeBase = await gitService.getMergeBase('master', 'does-not-exist');
+
+            assert.strictEqual(mergeBase, undefined);
+        });
+    });
+
+    describe('resolveCommitRange()', () => {
+        const commitFile = (name: string) => {
+            fs.writeFileSync(path.join(testRepoPath, name), `${name}\n`);
+            cp.execSync(`git add ${name}`, { cwd: testRepoPath });
+            cp.execSync(`git commit -m "Add ${name}"`, { cwd: testRepoPath });
+            return cp.execSync('git rev-parse HEAD', { cwd: testRepoPath }).toString().trim();
+        };
+
+        it('should review a single commit against its parent', async () => {
+            const first = commitFile('one.txt');
+            commitFile('two.txt');
+
+            const range = await gitService.resolveCommitRange(first);
+            const files = await gitService.getChangedFiles(range!.base, range!.head);
+            const commits = await gitService.getCommits(range!.base, range!.head);
+
+            assert.deepStrictEqual(files.map(f => f.path), ['one.txt']);
+            assert.deepStrictEqual(commits.map(c => c.subject), ['Add one.txt']);
+        });
+
+        it('should treat HEAD~N as the last N commits', async () => {
+            commitFile('one.txt');
+            commitFile('two.txt');
+            commitFile('three.txt');
+
+            const range = await gitService.resolveCommitRange('HEAD~2');
+            const files = await gitService.getChangedFiles(range!.base, range!.head);
+            const commits = await gitService.getCommits(range!.base, range!.head);
+
+            assert.deepStrictEqual(files.map(f => f.path).sort(), ['three.txt', 'two.txt']);
+            assert.deepStrictEqual(commits.map(c => c.subject), ['Add three.txt', 'Add two.txt']);
+        });
+
+        it('should accept an A..B range', async () => {
+            const first = commitFile('one.txt');
+            const second = commitFile('two.txt');
+
+            const range = await gitService.resolveCommitRange(`${first}..${second}`);
+
+            assert.strictEqual(range!.base, first);
+            assert.strictEqual(range!.head, second);
+        });
+
+        it('should diff an A...B range from the merge base', async () => {
+            const base = commitFile('one.txt');
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            const head = commitFile('two.txt');
+            cp.execSync('git checkout master', { cwd: testRepoPath });
+            commitFile('three.txt');
+
+            const range = await gitService.resolveCommitRange('master...feature');
+            const files = await gitService.getChangedFiles(range!.base, range!.head);
+
+            assert.strictEqual(range!.base, base);
+            assert.strictEqual(range!.head, head);
+            assert.deepStrictEqual(files.map(f => f.path), ['two.txt']);
+        });
+
+        it('should default an empty side of a range to HEAD', async () => {
+            const base = commitFile('one.txt');
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            const head = commitFile('two.txt');
+            cp.execSync('git checkout master', { cwd: testRepoPath });
+
+            const twoDots = await gitService.resolveCommitRange('..feature');
+            const threeDots = await gitService.resolveCommitRange('...feature');
+            const toHead = await gitService.resolveCommitRange('feature..');
+
+            assert.deepStrictEqual([twoDots!.base, twoDots!.head], [base, head]);
+            assert.deepStrictEqual([threeDots!.base, threeDots!.head], [base, head]);
+            assert.deepStrictEqual([toHead!.base, toHead!.head], [head, base]);
+        });
+
+        it('should diff the root commit against the empty tree', async () => {
+            const root = cp.execSync('git rev-list --max-parents=0 HEAD', { cwd: testRepoPath }).toString().trim();
+
+            const range = await gitService.resolveCommitRange(root);
+            const files = await gitService.getChangedFiles(range!.base, range!.head);
+            const commits = await gitService.getCommits(range!.base, range!.head);
+
+            assert.deepStrictEqual(files.map(f => `${f.status} ${f.path}`), ['A README.md']);
+            assert.deepStrictEqual(commits.map(c => c.subject), ['Initial commit']);
+        });
+
+        it('should return undefined for unknown refs', async () => {
+            const range = await gitService.resolveCommitRange('no-such-ref..HEAD');
+
+            assert.strictEqual(range, undefined);
+        });
+    });
+
+    describe('Working tree review', () => {
+        it('should list staged, unstaged and untracked changes against HEAD', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'README.md'), '# Unstaged edit\n');
+            fs.writeFileSync(path.join(testRepoPath, 'staged.txt'), 'staged\n');
+            cp.execSync('git add staged.txt', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'untracked.txt'), 'untracked\n');
+
+            const files = await gitService.getChangedFiles('HEAD', WORKING_TREE_REF);
+
+            assert.deepStrictEqual(
+                files.map(f => `${f.status} ${f.path}`).sort(),
+                ['? untracked.txt', 'A staged.txt', 'M README.md']
+            );
+        });
+
+        it('should list only staged changes for the index', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'README.md'), '# Unstaged edit\n');
+            fs.writeFileSync(path.join(testRepoPath, 'staged.txt'), 'staged\n');
+            cp.execSync('git add staged.txt', { cwd: testRepoPath });
+
+            const files = await gitService.getChangedFiles('HEAD', INDEX_REF);
+
+            assert.strictEqual(files.length, 1, 'Should only include the staged file');
+            assert.strictEqual(files[0].path, 'staged.txt');
+            assert.strictEqual(files[0].status, 'A');
+        });
+
+        it('should compare the working tree with another branch', async () => {
+            cp.execSync('git checkout -b feature', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'feature.txt'), 'feature\n');
+            cp.execSync('git add feature.txt', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add feature file"', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'README.md'), '# Local edit\n');
+
+            const files = await gitService.getChangedFiles('master', WORKING_TREE_REF);
+
+            assert.deepStrictEqual(files.map(f => f.path).sort(), ['README.md', 'feature.txt']);
+        });
+
+        it('should return a diff and content for untracked files', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'untracked.txt'), 'brand new\n');
+
+            const diff = await gitService.getFileDiff('HEAD', WORKING_TREE_REF, 'untracked.txt');
+            const content = await gitService.getFileContent(WORKING_TREE_REF, 'untracked.txt');
+
+            assert.ok(diff.includes('+brand new'), 'Diff should add the whole file');
+            assert.strictEqual(content, 'brand new\n');
+        });
+
+        it('should read staged content from the index', async () => {
+            fs.writeFileSync(path.join(testRepoPath, 'README.md'), '# Staged\n');
+            cp.execSync('git add README.md', { cwd: testRepoPath });
+            fs.writeFileSync(path.join(testRepoPath, 'README.md'), '# Unstaged\n');
+
+            const content = await gitService.getFileContent(INDEX_REF, 'README.md');
+            const diff = await gitService.getFileDiff('HEAD', INDEX_REF, 'README.md');
+
+            assert.ok(content.includes('Staged'), 'Should return the staged version');
+            assert.ok(!diff.includes('Unstaged'), 'Index diff should ignore unstaged edits');
+        });
+    });
+
+    describe('listFiles()', () => {
+        it('should list tracked files and untracked files that are not ignored', async () => {
+            fs.writeFileSync(path.join(testRepoPath, '.gitignore'), 'build/\n');
+            fs.mkdirSync(path.join(testRepoPath, 'src'));
+            fs.writeFileSync(path.join(testRepoPath, 'src/.gitignore'), '*.log\n');
+            fs.writeFileSync(path.join(testRepoPath, 'src/app.ts'), 'app\n');
+            cp.execSync('git add .', { cwd: testRepoPath });
+            cp.execSync('git commit -m "Add app"', { cwd: testRepoPath });
+
+            fs.mkdirSync(path.join(testRepoPath, 'build'));
+            fs.writeFileSync(path.join(testRepoPath, 'build/app.js'), 'built\n');
+            fs.writeFileSync(path.join(testRepoPath, 'src/debug.log'), 'log\n');
+            fs.writeFileSync(path.join(testRepoPath, '.git/info/exclude'), 'secret.txt\n');
+            fs.writeFileSync(path.join(testRepoPath, 'secret.txt'), 'secret\n');
+            fs.writeFileSync(path.join(testRepoPath, 'src/new.ts'), 'new\n');
+
+            assert.deepStrictEqual((await gitService.listFiles(false)).sort(), ['.gitignore', 'README.md', 'src/.gitignore', 'src/app.ts']);
+            assert.deepStrictEqual(
+                (await gitService.listFiles(true)).sort(),
+                ['.gitignore', 'README.md', 'src/.gitignore', 'src/app.ts', 'src/new.ts']
+            );
+        });
+    });
+
     describe('Error Handling', () => {
         it('should handle invalid workspace path', async () => {
             const badService = new GitService('/non/existent/path');
@@ -1,6 +1,56 @@
 import * as cp from 'child_process';
+import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ChangedFile } from '../types';
+import { ChangedFile, CommitInfo, CommitRange, DiffOptions, GitRefs } from '../types';
+
+/**
+ * Псевдо-ссылки для незакоммиченного состояния. Двоеточие запрещено в именах
+ * git refs, поэтому они никогда не совпадут с реальной веткой.
+ */
+export const WORKING_TREE_REF = ':worktree';
+export const INDEX_REF = ':index';
+
+// Хэш пустого дерева git: база для diff корневого коммита, у которого нет родителя
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Разделитель полей в --format для git log (в subject его не бывает)
+const FIELD_SEPARATOR = '%x1f';
+
+// git запускается без shell, но ref с ведущим дефисом git прочитал бы как опцию
+// (имена ref с дефиса начинаться не могут, так что настоящие refs это не отсекает)
+function isOptionLike(ref: string): boolean {
+    return ref.startsWith('-');
+}
+
+// Секция diff --git, в которой файл является новой стороной; если ее не найти — весь diff
+function getFileSection(diff: string, filePath: string): string {
+    const sections = diff.split(/\n(?=diff --git )/);
+    const section = sections.find(s => {
+        const [header] = s.split('\n', 1);
+        return header.endsWith(` b/${filePath}`) || header.endsWith(` "b/${filePath}"`);
+    });
+    return section ?? diff;
+}
+
+export function isUncommittedRef(ref: string | undefined): boolean {
+    return ref === WORKING_TREE_REF || ref === INDEX_REF;
+}
+
+/**
+ * Human-readable name for a ref, used in pickers, diff titles and the prompt.
+ */
+export function describeRef(ref: string): string {
+    switch (ref) {
+        case WORKING_TREE_REF: return 'Working Tree';
+        case INDEX_REF: return 'Index (staged)';
+        default: return ref;
+    }
+}
+
+interface ExecOptions {
+    // Exit codes that still mean success (git diff --no-index exits with 1 when files differ)
+    allowedExitCodes?: number[];
+}
 
 export class GitService {
     private workspaceRoot: string;
@@ -13,13 +63,16 @@ export class GitService {
         return this.workspaceRoot;
     }
 
-    private async exec(args: string[]): Promise<string> {
+    private async exec(args: string[], options: ExecOptions = {}): Promise<string> {
         return new Promise((resolve, reject) => {
-            cp.exec(
-                `git ${args.join(' ')}`,
+            // Аргументы передаются git как есть, без shell: refs и пути из репозитория не интерпретируются
+            cp.execFile(
+                'git',
+                args,
                 { cwd: this.workspaceRoot, maxBuffer: 1024 * 1024 * 10 }, // 10MB buffer
                 (err, stdout, stderr) => {
-                    if (err) {
+                    const code = typeof err?.code === 'number' ? err.code : -1;
+                    if (err && !options.allowedExitCodes?.includes(code)) {
                         const errorMessage = stderr.trim() || err.message || 'Unknown git error';
                         console.error(`Git command failed: git ${args.join(' ')}`);
                         console.error(`Error: ${errorMessage}`);
@@ -35,7 +88,7 @@ export class GitService {
 
     public async getBranches(): Promise<string[]> {
         try {
-            const output = await this.exec(['branch', '--format="%(refname:short)"']);
+            const output = await this.exec(['branch', '--format=%(refname:short)']);
             return output.split('\n').map(b => b.trim()).filter(b => b.length > 0);
         } catch (error) {
             console.error('Failed to get branches', error);
@@ -43,25 +96,212 @@ export class GitService {
         }
     }
 
-    public async getChangedFiles(targetBranch: string, sourceBranch: string): Promise<ChangedFile[]> {
+    /**
+     * Локальные ветки, remote-tracking ветки и теги, отсортированные по имени.
+     */
+    public async getRefs(): Promise<GitRefs> {
+        const refs: GitRefs = { local: [], remote: [], tags: [] };
+        try {
+            const output = await this.exec(['for-each-ref', '--format=%(refname)', 'refs/heads', 'refs/remotes', 'refs/tags']);
+            for (const line of output.split('\n')) {
+                const refName = line.trim();
+                if (refName.startsWith('refs/heads/')) {
+                    refs.local.push(refName.substring('refs/heads/'.length));
+                } else if (refName.startsWith('refs/remotes/')) {
+                    // origin/HEAD — это symref на ветку по умолчанию, он дублирует origin/main
+                    if (!refName.endsWith('/HEAD')) {
+                        refs.remote.push(refName.substring('refs/remotes/'.length));
+                    }
+                } else if (refName.startsWith('refs/tags/')) {
+                    refs.tags.push(refName.substring('refs/tags/'.length));
+                }
+            }
+        } catch (error) {
+            console.error('Failed to get refs', error);
+        }
+        return refs;
+    }
+
+    /**
+     * SHA общего предка target и source. Для незакоммиченных изменений берется HEAD.
+     * Возвращает undefined, если у веток нет общей истории.
+     */
+    public async getMergeBase(targetBranch: string, sourceBranch: string): Promise<string | undefined> {
+        const sourceCommit = isUncommittedRef(sourceBranch) ? 'HEAD' : sourceBranch;
+        if (isOptionLike(targetBranch) || isOptionLike(sourceCommit)) {
+            return undefined;
+        }
+        try {
+            const sha = await this.exec(['merge-base', targetBranch, sourceCommit]);
+            return sha || undefined;
+        } catch (error) {
+            console.error(`Failed to get merge-base of ${targetBranch} and ${sourceCommit}`, error);
+            return undefined;
+        }
+    }
+
+    public async getRecentCommits(limit: number = 50): Promise<CommitInfo[]> {
+        try {
+            return this.parseLog(await this.exec(['log', `-n${limit}`, this.logFormat(), 'HEAD']));
+        } catch (error) {
+            console.error('Failed to get recent commits', error);
+            return [];
+        }
+    }
+
+    /**
+     * Коммиты, которые входят в диапазон base..head (новые сверху).
+     */
+    public async getCommits(base: string, head: string): Promise<CommitInfo[]> {
+        try {
+            const range = base === EMPTY_TREE_SHA ? head : `${base}..${head}`;
+            return this.parseLog(await this.exec(['log', this.logFormat(), range]));
+        } catch (error) {
+            console.error(`Failed to get commits for ${base}..${head}`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Разбирает выбор пользователя в пару SHA для diff:
+     *  - "A..B" — коммиты из B, которых нет в A (пустой A или B означает HEAD);
+     *  - "A...B" — как git diff A...B: изменения B относительно общего предка с A;
+     *  - "HEAD~N" — последние N коммитов;
+     *  - любой другой ref или SHA — один коммит относительно его родителя.
+     * Возвращает undefined, если ref не существует.
+     */
+    public async resolveCommitRange(spec: string): Promise<CommitRange | undefined> {
+        const trimmed = spec.trim();
+        if (!trimmed) return undefined;
+
+        const rangeMatch = /^(.*?)(\.\.\.?)(.*)$/.exec(trimmed);
+        if (rangeMatch) {
+            const [, from, dots, to] = rangeMatch;
+            const start = await this.resolveCommit(from || 'HEAD');
+            const head = await this.resolveCommit(to || 'HEAD');
+            const base = start && head && dots === '...' ? await this.getMergeBase(start, head) : start;
+            return base && head ? { spec: trimmed, base, head } : undefined;
+        }
+
+        if (/^HEAD~\d+$/.test(trimmed)) {
+            const base = await this.resolveCommit(trimmed);
+            const head = await this.resolveCommit('HEAD');
+            return base && head ? { spec: trimmed, base, head } : undefined;
+        }
+
+        const head = await this.resolveCommit(trimmed);
+        if (!head) return undefined;
+        const parent = await this.resolveCommit(`${head}~1`);
+        return { spec: trimmed, base: parent ?? EMPTY_TREE_SHA, head };
+    }
+
+    /**
+     * Проверяет ref через git rev-parse и возвращает SHA коммита, на который он указывает.
+     */
+    public async resolveCommit(ref: string): Promise<string | undefined> {
+        if (!ref || isOptionLike(ref)) {
+            return undefined;
+        }
+        try {
+            const sha = await this.exec(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+            return sha || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private logFormat(): string {
+        return `--format=%H${FIELD_SEPARATOR}%h${FIELD_SEPARATOR}%s`;
+    }
+
+    private parseLog(output: string): CommitInfo[] {
+        return output.split('\n').filter(line => line.length > 0).map(line => {
+            const [sha, shortSha, subject] = line.split('\x1f');
+            return { sha, shortSha, subject: subject ?? '' };
+        });
+    }
+
+    /**
+     * Аргументы git diff для сравнения target с source.
+     * source может быть веткой или одной из псевдо-ссылок WORKING_TREE_REF / INDEX_REF.
+     */
+    private diffRangeArgs(targetBranch: string, sourceBranch: string): string[] {
+        if (isOptionLike(targetBranch) || isOptionLike(sourceBranch)) {
+            throw new Error(`Invalid ref: ${isOptionLike(targetBranch) ? targetBranch : sourceBranch}`);
+        }
+        switch (sourceBranch) {
+            case WORKING_TREE_REF: return [targetBranch];
+            case INDEX_REF: return ['--cached', targetBranch];
+            default: return [`${targetBranch}..${sourceBranch}`];
+        }
+    }
+
+    /**
+     * Флаги поиска переименований и копий.
+     * findCopiesHarder нужен для diff одного файла: источник копии в нем не изменен,
+     * и без этого флага git не рассматривает его как кандидата.
+     */
+    private renameArgs(options: DiffOptions, findCopiesHarder: boolean = false): string[] {
+        const threshold = options.renameThreshold !== undefined ? `${options.renameThreshold}%` : '';
+        switch (options.renameDetection ?? 'renames') {
+            case 'off': return ['--no-renames'];
+            case 'copies': return [`-C${threshold}`, ...(findCopiesHarder ? ['--find-copies-harder'] : [])];
+            default: return [`-M${threshold}`];
+        }
+    }
+
+    // Опции, влияющие на содержимое hunk: строки контекста, контекст функции и алгоритм diff
+    private hunkArgs(options: DiffOptions): string[] {
+        const args: string[] = [];
+        if (options.contextLines !== undefined) {
+            args.push(`-U${options.contextLines}`);
+        }
+        if (options.functionContext) {
+            args.push('--function-context');
+        }
+        if (options.algorithm && options.algorithm !== 'default') {
+            args.push(`--diff-algorithm=${options.algorithm}`);
+        }
+        return args;
+    }
+
+    public async getChangedFiles(targetBranch: string, sourceBranch: string, options: DiffOptions = {}): Promise<ChangedFile[]> {
         try {
-            // --name-status показывает статус (M, A, D) и путь
-            const output = await this.exec(['diff', '--name-status', `${targetBranch}..${sourceBranch}`]);
-            
-            if (!output) return [];
+            // --name-status показывает статус (M, A, D) и путь; для R и C — старый и новый путь
+            const output = await this.exec([
+                'diff', '--name-status', ...this.renameArgs(options), ...this.diffRangeArgs(targetBranch, sourceBranch)
+            ]);
 
             const files: ChangedFile[] = [];
-            const lines = output.split('\n');
+            const lines = output ? output.split('\n') : [];
 
             for (const line of lines) {
-                const [status, filePath] = line.split(/\t/);
-                if (filePath) {
+                // R087\told/path\tnew/path — число после буквы это процент сходства
+                const [status, firstPath, secondPath] = line.split(/\t/);
+                if (!firstPath) continue;
+
+                const code = status.charAt(0) as ChangedFile['status'];
+                if ((code === 'R' || code === 'C') && secondPath) {
+                    files.push({
+                        status: code,
+                        path: secondPath.trim(),
+                        oldPath: firstPath.trim(),
+                        similarity: parseInt(status.substring(1), 10) || undefined
+                    });
+                } else {
                     files.push({
-                        status: status.charAt(0) as any,
-                        path: filePath.trim()
+                        status: code,
+                        path: firstPath.trim()
                     });
                 }
             }
+
+            if (sourceBranch === WORKING_TREE_REF) {
+                const untracked = await this.getUntrackedFiles();
+                for (const filePath of untracked) {
+                    files.push({ status: '?', path: filePath });
+                }
+            }
             return files;
         } catch (error) {
             console.error('Failed to get changed files', error);
@@ -69,21 +309,88 @@ export class GitService {
         }
     }
 
-    public async getFileDiff(targetBranch: string, sourceBranch: string, filePath: string): Promise<string> {
+    /**
+     * Untracked files that are not excluded by .gitignore.
+     */
+    public async getUntrackedFiles(filePath?: string): Promise<string[]> {
         try {
-            // unified diff для конкретного файла
-            return await this.exec(['diff', `${targetBranch}..${sourceBranch}`, '--', filePath]);
+            const args = ['ls-files', '--others', '--exclude-standard'];
+            if (filePath) args.push('--', filePath);
+            const output = await this.exec(args);
+            return output.split('\n').map(f => f.trim()).filter(f => f.length > 0);
+        } catch (error) {
+            console.error('Failed to get untracked files', error);
+            return [];
+        }
+    }
+
+    /**
+     * Файлы рабочего дерева по версии git: отслеживаемые и, если includeUntracked, неотслеживаемые,
+     * которые не исключены .gitignore (в том числе вложенными), .git/info/exclude и core.excludesFile.
+     */
+    public async listFiles(includeUntracked: boolean = true): Promise<string[]> {
+        const args = ['ls-files', '-z', '--cached'];
+        if (includeUntracked) args.push('--others', '--exclude-standard');
+        // -z, чтобы git не экранировал пути с не-ASCII символами
+        const output = await this.exec(args);
+        return Array.from(new Set(output.split('\0').filter(f => f.length > 0)));
+    }
+
+    /**
+     * Unified diff для одного файла. Если передан ChangedFile со oldPath, в pathspec
+     * попадают оба пути, и git строит diff переименования (rename from / rename to)
+     * или копирования (copy from / copy to). У копии источник остается на месте, и его
+     * собственные изменения попали бы в тот же вывод, поэтому берется только секция файла.
+     */
+    public async getFileDiff(targetBranch: string, sourceBranch: string, file: string | ChangedFile, options: DiffOptions = {}): Promise<string> {
+        const filePath = typeof file === 'string' ? file : file.path;
+        const oldPath = typeof file === 'string' ? undefined : file.oldPath;
+        try {
+            const pathspec = oldPath ? [oldPath, filePath] : [filePath];
+            const diff = await this.exec([
+                'diff', ...this.renameArgs(options, true), ...this.hunkArgs(options),
+                ...this.diffRangeArgs(targetBranch, sourceBranch), '--', ...pathspec
+            ]);
+            if (diff || sourceBranch !== WORKING_TREE_REF) {
+                return oldPath ? getFileSection(diff, filePath) : diff;
+            }
+
+            // Untracked файлы не видны git diff, сравниваем их с пустым файлом
+            const untracked = await this.getUntrackedFiles(filePath);
+            if (untracked.length === 0) {
+                return '';
+            }
+            return await this.exec(['diff', '--no-index', ...this.hunkArgs(options), '--', '/dev/null', filePath], { allowedExitCodes: [1] });
         } catch (error) {
             console.error(`Failed to get diff for ${filePath}`, error);
             return '';
         }
     }
 
+    /**
+     * Размер файла в байтах без чтения содержимого; undefined, если файла нет.
+     */
+    public async getFileSize(branch: string, filePath: string): Promise<number | undefined> {
+        try {
+            if (branch === WORKING_TREE_REF) {
+                return (await fs.stat(path.join(this.workspaceRoot, filePath))).size;
+            }
+            const ref = branch === INDEX_REF ? '' : branch;
+            return Number(await this.exec(['cat-file', '-s', `${ref}:${filePath}`]));
+        } catch {
+            return undefined;
+        }
+    }
+
     public async getFileContent(branch: string, filePath: string): Promise<string> {
         try {
-            // git show sourceBranch:path/to/file
+            if (branch === WORKING_TREE_REF) {
+                return await fs.readFile(path.join(this.workspaceRoot, filePath), 'utf8');
+            }
+            // git show sourceBranch:path/to/file, для индекса — git show :path/to/file
             // Используем ./ чтобы избежать проблем, если путь начинается с дефиса, хотя для путей это редкость
-            return await this.exec(['show', `${branch}:${filePath}`]);
+            const ref = branch === INDEX_REF ? '' : branch;
+            return await this.exec(['show', `${ref}:${filePath}`]);
         } catch (error) {
             // Если файл удален или его нет в ветке, git show упадет
             return '';
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { getImportParser, scriptImportParser } from './importParsers';
+
+describe('scriptImportParser', () => {
+    it('finds ES module, dynamic and CommonJS imports', () => {
+        const source = [
+            "import * as vscode from 'vscode';",
+            "import { a, b } from './a';",
+            "import './polyfill';",
+            "export { c } from \"../c\";",
+            "const d = require('./d');",
+            "const e = await import('./e');",
+            "// import { old } from './old';",
+            "/* import { older } from './older'; */",
+            "import { a as again } from './a';"
+        ].join('\n');
+
+        assert.deepStrictEqual(scriptImportParser.parseImports(source), ['vscode', './a', './polyfill', '../c', './d', './e']);
+    });
+
+    it('keeps imports after comment markers inside strings, templates and regexes', () => {
+        const source = [
+            "import { a } from './a';",
+            "const pattern = '**/*.ts';",
+            "import { b } from './b';",
+            "const c = await import('./c'); /* done */",
+            "const url = `http://${host}/*`; // trailing",
+            "import { d } from './d';",
+            "const quote = /['\"]\/*/g;",
+            "export * from './e';"
+        ].join('\n');
+
+        assert.deepStrictEqual(scriptImportParser.parseImports(source), ['./a', './b', './c', './d', './e']);
+    });
+
+    it('resolves relative imports to project files', () => {
+        const files = new Set(['src/a.ts', 'src/utils/index.ts', 'src/b.tsx', 'lib/c.js']);
+        const resolve = (specifier: string) => scriptImportParser.resolveImport(specifier, 'src/main.ts', files);
+
+        assert.strictEqual(resolve('./a'), 'src/a.ts');
+        assert.strictEqual(resolve('./a.js'), 'src/a.ts');
+        assert.strictEqual(resolve('./utils'), 'src/utils/index.ts');
+        assert.strictEqual(resolve('./b'), 'src/b.tsx');
+        assert.strictEqual(resolve('../lib/c.js'), 'lib/c.js');
+        assert.strictEqual(resolve('./missing'), undefined);
+        assert.strictEqual(resolve('vscode'), undefined);
+    });
+
+    it('is picked by file extension', () => {
+        assert.strictEqual(getImportParser('src/a.TS'), scriptImportParser);
+        assert.strictEqual(getImportParser('src/a.mjs'), scriptImportParser);
+        assert.strictEqual(getImportParser('src/a.py'), undefined);
+    });
+});
@@ -0,0 +1,158 @@
+import * as path from 'path';
+
+/**
+ * Разбор импортов одного языка. Чтобы добавить язык, реализуйте парсер
+ * и зарегистрируйте его через registerImportParser.
+ */
+export interface ImportParser {
+    readonly extensions: string[]; // С точкой: '.ts'
+    // Спецификаторы модулей в том виде, как они записаны в исходнике
+    parseImports(content: string): string[];
+    // Путь файла проекта (относительно корня, через /), на который указывает спецификатор
+    resolveImport(specifier: string, fromPath: string, files: ReadonlySet<string>): string | undefined;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// from 'x', import 'x', import('x'), require('x')
+const SPECIFIER_PATTERN = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"`])([^'"`\n]+)\1/g;
+
+/**
+ * TypeScript и JavaScript: ES modules, dynamic import и CommonJS require.
+ * Разрешаются только относительные импорты; пакеты и алиасы из tsconfig paths пропускаются.
+ */
+export const scriptImportParser: ImportParser = {
+    extensions: SCRIPT_EXTENSIONS,
+
+    parseImports(content: string): string[] {
+        // Комментарии убираем до поиска, иначе закомментированный import попадет в граф
+        const source = stripComments(content);
+        const specifiers = new Set<string>();
+        for (const match of source.matchAll(SPECIFIER_PATTERN)) {
+            specifiers.add(match[2]);
+        }
+        return Array.from(specifiers);
+    },
+
+    resolveImport(specifier: string, fromPath: string, files: ReadonlySet<string>): string | undefined {
+        if (!specifier.startsWith('.')) {
+            return undefined;
+        }
+        const target = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier));
+        // В ESM-коде на TypeScript импорт пишут с .js, а файл на диске .ts
+        const withoutExtension = target.replace(/\.(m|c)?jsx?$/, '');
+        const candidates = [
+            target,
+            ...SCRIPT_EXTENSIONS.map(ext => withoutExtension + ext),
+            ...SCRIPT_EXTENSIONS.map(ext => `${target}/index${ext}`)
+        ];
+        return candidates.find(candidate => files.has(candidate));
+    }
+};
+
+// После этих символов и слов / начинает regex literal, а не деление
+const REGEX_PRECEDING_CHARS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_PRECEDING_WORDS = /\b(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+/**
+ * Убирает комментарии из кода на JavaScript/TypeScript. Строки, template literals
+ * и regex literals пропускаются целиком: начало комментария внутри строки (glob в кавычках)
+ * не должно съедать код до следующего настоящего комментария.
+ */
+function stripComments(content: string): string {
+    let result = '';
+    let i = 0;
+    // Для каждого открытого ${ в template literal — глубина {} в момент его открытия
+    const templates: number[] = [];
+    let braces = 0;
+
+    const skipQuoted = (start: number, quote: string): number => {
+        let end = start + 1;
+        while (end < content.length && content[end] !== quote && content[end] !== '\n') {
+            end += content[end] === '\\' ? 2 : 1;
+        }
+        return end + 1;
+    };
+    // Текст template literal до закрывающей ` или до ${ (тогда выражение разбирается как код)
+    const skipTemplate = (start: number): number => {
+        let end = start;
+        while (end < content.length) {
+            if (content[end] === '\\') {
+                end += 2;
+            } else if (content[end] === '`') {
+                return end + 1;
+            } else if (content[end] === '$' && content[end + 1] === '{') {
+                templates.push(braces++);
+                return end + 2;
+            } else {
+                end++;
+            }
+        }
+        return end;
+    };
+    const skipRegex = (start: number): number => {
+        let end = start + 1;
+        let inClass = false;
+        while (end < content.length && content[end] !== '\n' && (inClass || content[end] !== '/')) {
+            if (content[end] === '\\') {
+                end++;
+            } else if (content[end] === '[') {
+                inClass = true;
+            } else if (content[end] === ']') {
+                inClass = false;
+            }
+            end++;
+        }
+        return end + 1;
+    };
+    const regexAllowed = (): boolean => {
+        const before = result.trimEnd();
+        return before.length === 0 || REGEX_PRECEDING_CHARS.includes(before[before.length - 1]) || REGEX_PRECEDING_WORDS.test(before);
+    };
+
+    while (i < content.length) {
+        const char = content[i];
+        const next = content[i + 1];
+        let end = i + 1;
+        if (char === '/' && next === '/') {
+            const lineEnd = content.indexOf('\n', i);
+            i = lineEnd === -1 ? content.length : lineEnd;
+            continue;
+        }
+        if (char === '/' && next === '*') {
+            const commentEnd = content.indexOf('*/', i + 2);
+            i = commentEnd === -1 ? content.length : commentEnd + 2;
+            result += ' ';
+            continue;
+        }
+        if (char === '\'' || char === '"') {
+            end = skipQuoted(i, char);
+        } else if (char === '`') {
+            end = skipTemplate(i + 1);
+        } else if (char === '/' && regexAllowed()) {
+            end = skipRegex(i);
+        } else if (char === '{') {
+            braces++;
+        } else if (char === '}') {
+            braces--;
+            if (templates.length > 0 && templates[templates.length - 1] === braces) {
+                templates.pop();
+                end = skipTemplate(i + 1);
+            }
+        }
+        result += content.slice(i, end);
+        i = end;
+    }
+    return result;
+}
+
+const parsers: ImportParser[] = [scriptImportParser];
+
+export function registerImportParser(parser: ImportParser): void {
+    parsers.push(parser);
+}
+
+export function getImportParser(filePath: string): ImportParser | undefined {
+    const extension = path.posix.extname(filePath).toLowerCase();
+    return parsers.find(parser => parser.extensions.includes(extension));
+}
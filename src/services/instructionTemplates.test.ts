@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { BUILTIN_TEMPLATES, getInstructionTemplates, getTemplateVariables, resolveTemplate } from './instructionTemplates';
+import { WORKING_TREE_REF } from './gitService';
+
+describe('instruction templates', () => {
+    it('lists built-in templates and lets user templates replace them', () => {
+        const templates = getInstructionTemplates({ 'Security Review': 'Mine', 'Docs Review': 'Check docs' });
+        const byName = new Map(templates.map(t => [t.name, t]));
+
+        assert.strictEqual(templates.length, Object.keys(BUILTIN_TEMPLATES).length + 1);
+        assert.deepStrictEqual(byName.get('Security Review'), { name: 'Security Review', text: 'Mine', builtin: false });
+        assert.strictEqual(byName.get('Performance Review')?.builtin, true);
+        assert.strictEqual(byName.get('Docs Review')?.text, 'Check docs');
+    });
+
+    it('resolves variables from the review', () => {
+        const variables = getTemplateVariables([{
+            sourceBranch: WORKING_TREE_REF,
+            targetBranch: 'main',
+            instruction: '',
+            files: [{ path: 'src/a.ts', status: 'M' }, { path: 'b.py', status: 'A' }, { path: 'src/c.ts', status: 'A' }],
+            commits: [{ sha: '1', shortSha: '1', subject: 'Add parser' }, { sha: '2', shortSha: '2', subject: 'Fix bug' }]
+        }]);
+
+        assert.strictEqual(
+            resolveTemplate('{{sourceBranch}} -> {{ targetBranch }}: {{fileCount}} files in {{languages}}\n{{commitSubjects}}', variables),
+            'Working Tree -> main: 3 files in python, typescript\n- Add parser\n- Fix bug'
+        );
+    });
+
+    it('leaves unknown variables untouched', () => {
+        assert.strictEqual(resolveTemplate('Hello {{name}} and {{constructor}}', {}), 'Hello {{name}} and {{constructor}}');
+    });
+});
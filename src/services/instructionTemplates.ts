@@ -0,0 +1,73 @@
+import { describeRef } from './gitService';
+import { PromptConfig } from '../types';
+import { getLanguageId } from '../utils/language';
+
+export interface InstructionTemplate {
+    name: string;
+    text: string;
+    builtin: boolean;
+}
+
+export const BUILTIN_TEMPLATES: Record<string, string> = {
+    'Security Review': [
+        'Review the changes from {{sourceBranch}} into {{targetBranch}} ({{fileCount}} files, {{languages}}) for security issues.',
+        'Look for injection, missing input validation, broken authentication or authorization, secrets in code,',
+        'unsafe deserialization and insecure defaults. For each finding give the file, the risk and a concrete fix.'
+    ].join('\n'),
+    'Performance Review': [
+        'Review the changes from {{sourceBranch}} into {{targetBranch}} ({{fileCount}} files, {{languages}}) for performance problems.',
+        'Look for unnecessary work in hot paths, N+1 queries, blocking I/O, excessive allocations and missing caching or batching.',
+        'Estimate the impact of each finding and suggest a fix.'
+    ].join('\n'),
+    'API Design Review': [
+        'Review the public API changes from {{sourceBranch}} into {{targetBranch}} ({{fileCount}} files, {{languages}}).',
+        'Check naming, consistency with the existing API, backward compatibility, error handling and documentation.',
+        'Point out breaking changes explicitly.'
+    ].join('\n'),
+    'Test Coverage Review': [
+        'Review the test coverage of the changes from {{sourceBranch}} into {{targetBranch}} ({{fileCount}} files, {{languages}}).',
+        'List changed behaviour that has no tests, missing edge cases and tests that do not assert anything meaningful.',
+        'Suggest the test cases to add.'
+    ].join('\n')
+};
+
+export const TEMPLATE_VARIABLES = ['sourceBranch', 'targetBranch', 'fileCount', 'languages', 'commitSubjects'];
+
+/**
+ * Встроенные шаблоны и шаблоны пользователя (настройка aiReview.instructionTemplates).
+ * Шаблон пользователя с тем же именем заменяет встроенный.
+ */
+export function getInstructionTemplates(userTemplates: Record<string, string> = {}): InstructionTemplate[] {
+    const builtin = Object.entries(BUILTIN_TEMPLATES)
+        .filter(([name]) => !(name in userTemplates))
+        .map(([name, text]) => ({ name, text, builtin: true }));
+    const user = Object.entries(userTemplates).map(([name, text]) => ({ name, text, builtin: false }));
+    return [...builtin, ...user];
+}
+
+/**
+ * Значения переменных для ревью одного или нескольких репозиториев.
+ */
+export function getTemplateVariables(configs: PromptConfig[]): Record<string, string> {
+    const unique = (values: string[]) => Array.from(new Set(values));
+    const files = configs.flatMap(c => c.files);
+    const languages = unique(files.map(f => getLanguageId(f.path)).filter((l): l is string => !!l)).sort();
+    const commits = configs.flatMap(c => c.commits ?? []);
+
+    return {
+        sourceBranch: unique(configs.map(c => describeRef(c.sourceBranch))).join(', '),
+        targetBranch: unique(configs.map(c => describeRef(c.targetBranch))).join(', '),
+        fileCount: String(files.length),
+        languages: languages.length > 0 ? languages.join(', ') : 'unknown languages',
+        commitSubjects: commits.map(c => `- ${c.subject}`).join('\n')
+    };
+}
+
+/**
+ * Подставляет {{переменные}}. Неизвестные переменные остаются как есть, чтобы опечатка была видна в промпте.
+ */
+export function resolveTemplate(text: string, variables: Record<string, string>): string {
+    return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+}
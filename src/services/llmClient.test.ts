@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { getChatCompletionsUrl, streamChatCompletion } from './llmClient';
+
+// Заглушка OpenAI-совместимого сервера: handler получает разобранное тело запроса
+function startServer(handler: (body: any, req: http.IncomingMessage, res: http.ServerResponse) => void): Promise<{ server: http.Server; baseUrl: string }> {
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => handler(JSON.parse(raw), req, res));
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1` });
+    }));
+}
+
+function sendEvents(res: http.ServerResponse, deltas: string[]): void {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const content of deltas) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+    }
+    res.write(`data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: 'stop' }] })}\n\n`);
+    res.end('data: [DONE]\n\n');
+}
+
+describe('LLM client', () => {
+    let server: http.Server | undefined;
+
+    afterEach(() => {
+        server?.close();
+        server = undefined;
+    });
+
+    it('builds the chat completions URL from the base URL', () => {
+        assert.strictEqual(getChatCompletionsUrl('http://localhost:8080/v1/').href, 'http://localhost:8080/v1/chat/completions');
+        assert.strictEqual(getChatCompletionsUrl('http://localhost:8080/v1/chat/completions').href, 'http://localhost:8080/v1/chat/completions');
+    });
+
+    it('streams the response and sends the endpoint settings', async () => {
+        let request: any;
+        let authorization: string | undefined;
+        const started = await startServer((body, req, res) => {
+            request = body;
+            authorization = req.headers.authorization;
+            sendEvents(res, ['Looks ', 'good', ' to me']);
+        });
+        server = started.server;
+
+        const deltas: string[] = [];
+        const result = await streamChatCompletion(
+            { baseUrl: started.baseUrl, model: 'local-model', apiKey: 'sk-test', temperature: 0.2, maxTokens: 512 },
+            'Review this',
+            delta => deltas.push(delta)
+        );
+
+        assert.deepStrictEqual(deltas, ['Looks ', 'good', ' to me']);
+        assert.strictEqual(result.text, 'Looks good to me');
+        assert.strictEqual(result.finishReason, 'stop');
+        assert.strictEqual(result.cancelled, false);
+        assert.deepStrictEqual(request, {
+            model: 'local-model',
+            messages: [{ role: 'user', content: 'Review this' }],
+            stream: true,
+            temperature: 0.2,
+            max_tokens: 512
+        });
+        assert.strictEqual(authorization, 'Bearer sk-test');
+    });
+
+    it('accepts a non-streaming JSON response', async () => {
+        const started = await startServer((_body, _req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ choices: [{ message: { content: 'All fine' }, finish_reason: 'stop' }] }));
+        });
+        server = started.server;
+
+        const result = await streamChatCompletion({ baseUrl: started.baseUrl, model: 'm' }, 'p', () => { });
+        assert.strictEqual(result.text, 'All fine');
+    });
+
+    it('reports the server error message', async () => {
+        const started = await startServer((_body, _req, res) => {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: { message: 'model "m" not found' } }));
+        });
+        server = started.server;
+
+        await assert.rejects(
+            streamChatCompletion({ baseUrl: started.baseUrl, model: 'm' }, 'p', () => { }),
+            /404: model "m" not found/
+        );
+    });
+
+    it('stops on cancellation and keeps the partial text', async () => {
+        const controller = new AbortController();
+        const started = await startServer((_body, _req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'First' } }] })}\n\n`);
+            // Дальше сервер молчит, пока клиент не оборвет соединение
+        });
+        server = started.server;
+
+        const result = await streamChatCompletion(
+            { baseUrl: started.baseUrl, model: 'm' },
+            'p',
+            () => controller.abort(),
+            controller.signal
+        );
+        assert.strictEqual(result.text, 'First');
+        assert.strictEqual(result.cancelled, true);
+    });
+});
@@ -0,0 +1,168 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * OpenAI-совместимый сервер (OpenAI, vLLM, llama.cpp, Ollama, LM Studio):
+ * POST {baseUrl}/chat/completions со stream: true.
+ */
+export interface ChatEndpoint {
+    baseUrl: string; // Например http://localhost:11434/v1
+    model: string;
+    apiKey?: string; // Локальные серверы обычно работают без ключа
+    temperature?: number; // Не задано — значение сервера по умолчанию
+    maxTokens?: number;
+}
+
+export interface ChatCompletionResult {
+    text: string;
+    finishReason?: string; // stop, length и т.д., если сервер его прислал
+    cancelled: boolean; // Прервано через signal; text содержит то, что успело прийти
+}
+
+export function getChatCompletionsUrl(baseUrl: string): URL {
+    const trimmed = baseUrl.trim().replace(/\/+$/, '');
+    return new URL(trimmed.endsWith('/chat/completions') ? trimmed : `${trimmed}/chat/completions`);
+}
+
+// Текст ошибки из тела ответа: { "error": { "message": ... } }, { "error": "..." } или как есть
+function describeErrorBody(body: string): string {
+    try {
+        const error = JSON.parse(body)?.error;
+        const message = typeof error === 'string' ? error : error?.message;
+        if (message) {
+            return message;
+        }
+    } catch {
+        // Не JSON — показываем начало тела
+    }
+    return body.trim().substring(0, 500);
+}
+
+/**
+ * Отправляет промпт одним сообщением пользователя и отдает ответ по кусочкам в onDelta.
+ * Сервер, который игнорирует stream и отвечает обычным JSON, тоже поддерживается: onDelta
+ * вызывается один раз со всем текстом. Отмена через signal не считается ошибкой.
+ */
+export function streamChatCompletion(
+    endpoint: ChatEndpoint,
+    prompt: string,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+): Promise<ChatCompletionResult> {
+    const url = getChatCompletionsUrl(endpoint.baseUrl);
+    const body = JSON.stringify({
+        model: endpoint.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        ...(endpoint.temperature !== undefined ? { temperature: endpoint.temperature } : {}),
+        ...(endpoint.maxTokens ? { max_tokens: endpoint.maxTokens } : {})
+    });
+    const headers: Record<string, string | number> = {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'Content-Length': Buffer.byteLength(body)
+    };
+    if (endpoint.apiKey) {
+        headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+    }
+
+    return new Promise((resolve, reject) => {
+        let text = '';
+        let finishReason: string | undefined;
+        let settled = false;
+
+        const finish = (error?: Error) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            if (error && !signal?.aborted) {
+                reject(error);
+            } else {
+                resolve({ text, finishReason, cancelled: !!signal?.aborted });
+            }
+        };
+
+        const append = (delta: string | undefined) => {
+            if (!delta) return;
+            text += delta;
+            onDelta(delta);
+        };
+
+        // Один объект chat.completion.chunk (stream) или chat.completion (без stream)
+        const handleCompletion = (data: any) => {
+            if (data?.error) {
+                throw new Error(describeErrorBody(JSON.stringify(data)));
+            }
+            const choice = data?.choices?.[0];
+            append(choice?.delta?.content ?? choice?.message?.content);
+            finishReason = choice?.finish_reason ?? finishReason;
+        };
+
+        const client = url.protocol === 'https:' ? https : http;
+        const request = client.request(url, { method: 'POST', headers }, response => {
+            response.setEncoding('utf8');
+            const status = response.statusCode ?? 0;
+            const isEventStream = (response.headers['content-type'] ?? '').includes('text/event-stream');
+            let buffer = '';
+
+            response.on('data', (chunk: string) => {
+                buffer += chunk;
+                if (status < 200 || status >= 300 || !isEventStream) {
+                    return;
+                }
+                // Server-sent events: строки "data: {...}", события разделены пустой строкой
+                const lines = buffer.split(/\r?\n/);
+                buffer = lines.pop()!;
+                try {
+                    for (const line of lines) {
+                        if (!line.startsWith('data:')) continue;
+                        const data = line.substring(5).trim();
+                        if (data === '[DONE]') {
+                            finish();
+                            request.destroy();
+                            return;
+                        }
+                        handleCompletion(JSON.parse(data));
+                    }
+                } catch (e: any) {
+                    finish(new Error(`Invalid response from ${url.host}: ${e.message}`));
+                    request.destroy();
+                }
+            });
+
+            response.on('end', () => {
+                if (status < 200 || status >= 300) {
+                    finish(new Error(`${url.host} returned ${status}: ${describeErrorBody(buffer) || response.statusMessage}`));
+                    return;
+                }
+                if (!isEventStream) {
+                    try {
+                        handleCompletion(JSON.parse(buffer));
+                    } catch (e: any) {
+                        finish(new Error(`Invalid response from ${url.host}: ${e.message}`));
+                        return;
+                    }
+                }
+                finish();
+            });
+            response.on('error', error => finish(error));
+        });
+
+        const onAbort = () => {
+            request.destroy();
+            finish();
+        };
+        if (signal?.aborted) {
+            onAbort();
+            return;
+        }
+        signal?.addEventListener('abort', onAbort);
+
+        request.on('error', (error: NodeJS.ErrnoException) => {
+            finish(error.code === 'ECONNREFUSED'
+                ? new Error(`Cannot connect to ${url.origin}. Is the server running?`)
+                : error);
+        });
+        request.end(body);
+    });
+}
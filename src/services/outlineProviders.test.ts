@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { getOutlineProvider, scriptOutlineProvider } from './outlineProviders';
+
+describe('scriptOutlineProvider', () => {
+    it('keeps declarations and elides function bodies', () => {
+        const source = [
+            "import * as fs from 'fs';",
+            '',
+            'export interface Options {',
+            '    depth: number;',
+            '}',
+            '',
+            '/** Reads the file. */',
+            'export function read(file: string): string {',
+            "    return fs.readFileSync(file, 'utf8');",
+            '}',
+            '',
+            'export class Reader {',
+            '    private cache = new Map<string, string>();',
+            '    constructor(private options: Options) {',
+            '        this.cache.clear();',
+            '    }',
+            '    get size(): number { return this.cache.size; }',
+            '    read(file: string): string {',
+            '        return read(file);',
+            '    }',
+            '}',
+            '',
+            'export const double = (x: number): number => x * 2;',
+            '',
+            "console.log(read('a.txt'));"
+        ].join('\n');
+
+        assert.strictEqual(scriptOutlineProvider.outline(source, 'src/reader.ts'), [
+            "import * as fs from 'fs';",
+            '',
+            'export interface Options {',
+            '    depth: number;',
+            '}',
+            '',
+            '/** Reads the file. */',
+            'export function read(file: string): string { ... }',
+            '',
+            'export class Reader {',
+            '    private cache = new Map<string, string>();',
+            '    constructor(private options: Options) { ... }',
+            '    get size(): number { ... }',
+            '    read(file: string): string { ... }',
+            '}',
+            '',
+            'export const double = (x: number): number => ...;',
+            ''
+        ].join('\n'));
+    });
+
+    it('keeps CommonJS exports of JavaScript files', () => {
+        const source = [
+            'function helper() {',
+            '    return 1;',
+            '}',
+            'helper();',
+            'module.exports = { helper };'
+        ].join('\n');
+
+        assert.strictEqual(scriptOutlineProvider.outline(source, 'lib/helper.js'), 'function helper() { ... }\nmodule.exports = { helper };\n');
+    });
+
+    it('picks the provider by extension', () => {
+        assert.strictEqual(getOutlineProvider('src/App.tsx'), scriptOutlineProvider);
+        assert.strictEqual(getOutlineProvider('main.py'), undefined);
+    });
+});
@@ -0,0 +1,114 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Outline файла одного языка: объявления без тел функций. Чтобы добавить язык,
+ * реализуйте провайдер и зарегистрируйте его через registerOutlineProvider.
+ */
+export interface OutlineProvider {
+    readonly extensions: string[]; // С точкой: '.ts'
+    outline(content: string, filePath: string): string;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Чем заменяются опущенные тела функций
+const ELIDED_BLOCK = '{ ... }';
+const ELIDED_EXPRESSION = '...';
+
+// Верхнеуровневые конструкции, которые попадают в outline; остальной код (вызовы, циклы) отбрасывается
+const DECLARATION_KINDS = new Set<ts.SyntaxKind>([
+    ts.SyntaxKind.ImportDeclaration,
+    ts.SyntaxKind.ImportEqualsDeclaration,
+    ts.SyntaxKind.ExportDeclaration,
+    ts.SyntaxKind.ExportAssignment,
+    ts.SyntaxKind.FunctionDeclaration,
+    ts.SyntaxKind.ClassDeclaration,
+    ts.SyntaxKind.InterfaceDeclaration,
+    ts.SyntaxKind.TypeAliasDeclaration,
+    ts.SyntaxKind.EnumDeclaration,
+    ts.SyntaxKind.ModuleDeclaration,
+    ts.SyntaxKind.VariableStatement
+]);
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+    switch (path.posix.extname(filePath).toLowerCase()) {
+        case '.tsx': return ts.ScriptKind.TSX;
+        case '.jsx': return ts.ScriptKind.JSX;
+        case '.js':
+        case '.mjs':
+        case '.cjs': return ts.ScriptKind.JS;
+        default: return ts.ScriptKind.TS;
+    }
+}
+
+// module.exports = ... и exports.name = ... — публичная поверхность CommonJS модуля
+function isCommonJsExport(statement: ts.Statement): boolean {
+    if (!ts.isExpressionStatement(statement) || !ts.isBinaryExpression(statement.expression)
+        || statement.expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
+        return false;
+    }
+    const target = statement.expression.left;
+    if (!ts.isPropertyAccessExpression(target)) {
+        return false;
+    }
+    const owner = target.expression;
+    return ts.isIdentifier(owner) && (owner.text === 'exports' || owner.text === 'module' && target.name.text === 'exports');
+}
+
+/**
+ * Текст объявления с опущенными телами функций, методов, конструкторов и accessors.
+ * Вложенные функции не обходим: они внутри опущенных тел.
+ */
+function elideBodies(content: string, sourceFile: ts.SourceFile, statement: ts.Statement): string {
+    const elisions: Array<{ start: number; end: number; text: string }> = [];
+    const visit = (node: ts.Node): void => {
+        const body = ts.isFunctionLike(node) ? (node as ts.FunctionLikeDeclaration).body : undefined;
+        if (body) {
+            elisions.push({
+                start: body.getStart(sourceFile),
+                end: body.end,
+                text: ts.isBlock(body) ? ELIDED_BLOCK : ELIDED_EXPRESSION
+            });
+            return;
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(statement);
+
+    let result = '';
+    let position = statement.getFullStart();
+    for (const { start, end, text } of elisions) {
+        result += content.slice(position, start) + text;
+        position = end;
+    }
+    return result + content.slice(position, statement.end);
+}
+
+/**
+ * TypeScript и JavaScript через компилятор TypeScript: импорты, экспорты, типы, классы
+ * и сигнатуры функций с комментариями к ним.
+ */
+export const scriptOutlineProvider: OutlineProvider = {
+    extensions: SCRIPT_EXTENSIONS,
+
+    outline(content: string, filePath: string): string {
+        const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, false, getScriptKind(filePath));
+        const declarations = sourceFile.statements
+            .filter(statement => DECLARATION_KINDS.has(statement.kind) || isCommonJsExport(statement))
+            .map(statement => elideBodies(content, sourceFile, statement));
+        const outline = declarations.join('').trim();
+        return outline ? outline + '\n' : '';
+    }
+};
+
+const providers: OutlineProvider[] = [scriptOutlineProvider];
+
+export function registerOutlineProvider(provider: OutlineProvider): void {
+    providers.push(provider);
+}
+
+export function getOutlineProvider(filePath: string): OutlineProvider | undefined {
+    const extension = path.posix.extname(filePath).toLowerCase();
+    return providers.find(provider => provider.extensions.includes(extension));
+}
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { breakdownPromptTokens, describeBreakdown } from './promptBreakdown';
+import { PromptDocument } from '../types';
+
+describe('prompt token breakdown', () => {
+    const document: PromptDocument = {
+        instruction: 'Review',
+        repositories: [{ sourceBranch: 'feature', targetBranch: 'main' }],
+        paths: ['a.ts', 'b.ts'],
+        files: [
+            { file: { path: 'a.ts', status: 'M' }, diff: '+x', content: 'x' },
+            { file: { path: 'b.ts', status: 'D' }, diff: '-yyyy' }
+        ],
+        contextFiles: [{ path: 'c.ts', content: 'ccc' }],
+        omissions: []
+    };
+    const countChars = (text: string) => text.length;
+
+    it('counts every section and leaves markup as the remainder', () => {
+        const breakdown = breakdownPromptTokens(document, 'x'.repeat(100), countChars);
+
+        assert.strictEqual(breakdown.total, 100);
+        assert.deepStrictEqual(breakdown.sections, [
+            { label: 'Instructions', tokens: 6 },
+            { label: 'Directory structure', tokens: 9 },
+            { label: 'Supplementary files', tokens: 3, children: [{ label: 'c.ts', tokens: 3 }] },
+            {
+                label: 'Changed files',
+                tokens: 8,
+                children: [
+                    { label: 'a.ts (diff)', tokens: 2 },
+                    { label: 'a.ts (content)', tokens: 1 },
+                    { label: 'b.ts (diff)', tokens: 5 }
+                ]
+            },
+            { label: 'Markup, branches and omissions', tokens: 74 }
+        ]);
+    });
+
+    it('aligns the breakdown table', () => {
+        const lines = describeBreakdown(breakdownPromptTokens(document, 'x'.repeat(1500), countChars));
+
+        assert.strictEqual(lines[0], 'Instructions                         6');
+        assert.strictEqual(lines[3], '  c.ts                               3');
+        assert.strictEqual(lines[lines.length - 1], 'Total                             1.5K');
+    });
+});
@@ -0,0 +1,72 @@
+import { PromptDocument } from '../types';
+import { formatTokens } from '../utils/tokenEstimator';
+
+export interface PromptSectionTokens {
+    label: string;
+    tokens: number;
+    children?: PromptSectionTokens[];
+}
+
+export interface PromptBreakdown {
+    total: number;
+    sections: PromptSectionTokens[];
+}
+
+/**
+ * Токены промпта по разделам. Разделы считаются по исходному тексту, без разметки формата;
+ * разметка, ветки, коммиты и список omitted идут отдельной строкой как остаток от total.
+ */
+export function breakdownPromptTokens(document: PromptDocument, text: string, countTokens: (text: string) => number): PromptBreakdown {
+    const total = countTokens(text);
+    const sections: PromptSectionTokens[] = [
+        { label: 'Instructions', tokens: countTokens(document.instruction) },
+        { label: 'Directory structure', tokens: countTokens(document.paths.join('\n')) }
+    ];
+
+    if (document.contextFiles.length > 0) {
+        sections.push(group('Supplementary files', document.contextFiles.map(section => ({
+            label: section.path,
+            tokens: countTokens(section.content ?? '')
+        }))));
+    }
+
+    if (document.files.length > 0) {
+        const files: PromptSectionTokens[] = [];
+        for (const { file, diff, content } of document.files) {
+            files.push({ label: `${file.path} (diff)`, tokens: countTokens(diff) });
+            if (content !== undefined) {
+                files.push({ label: `${file.path} (content)`, tokens: countTokens(content) });
+            }
+        }
+        sections.push(group('Changed files', files));
+    }
+
+    if (document.outputContract) {
+        sections.push({ label: 'Output format', tokens: countTokens(document.outputContract) });
+    }
+
+    const counted = sections.reduce((sum, section) => sum + section.tokens, 0);
+    sections.push({ label: 'Markup, branches and omissions', tokens: Math.max(0, total - counted) });
+    return { total, sections };
+}
+
+function group(label: string, children: PromptSectionTokens[]): PromptSectionTokens {
+    return { label, tokens: children.reduce((sum, child) => sum + child.tokens, 0), children };
+}
+
+/**
+ * Таблица разбивки для заголовка превью: раздел и токены, вложенные строки с отступом.
+ */
+export function describeBreakdown(breakdown: PromptBreakdown): string[] {
+    const rows: Array<[string, number]> = [];
+    for (const section of breakdown.sections) {
+        rows.push([section.label, section.tokens]);
+        for (const child of section.children ?? []) {
+            rows.push([`  ${child.label}`, child.tokens]);
+        }
+    }
+    rows.push(['Total', breakdown.total]);
+
+    const width = Math.max(...rows.map(([label]) => label.length));
+    return rows.map(([label, tokens]) => `${label.padEnd(width)}  ${formatTokens(tokens).padStart(6)}`);
+}
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { DiffLoader, fitToBudget } from './promptBudget';
+import { getPromptRenderer } from './promptRenderer';
+import { PromptDocument, PromptFileSection } from '../types';
+
+const render = (document: PromptDocument) => getPromptRenderer('json').render(document);
+const measure = (document: PromptDocument) => Math.ceil(render(document).length / 4);
+
+function makeDocument(): PromptDocument {
+    return {
+        instruction: 'Review changes.',
+        repositories: [{ sourceBranch: 'feature', targetBranch: 'main' }],
+        paths: ['src/a.ts', 'src/b.ts', 'docs/big.md', 'docs/small.md'],
+        files: [
+            { file: { path: 'src/a.ts', status: 'A' }, diff: '+' + 'a'.repeat(400), content: 'a'.repeat(400) },
+            { file: { path: 'src/b.ts', status: 'M' }, diff: ' ctx\n'.repeat(40) + '+b', content: 'b'.repeat(800) }
+        ],
+        contextFiles: [
+            { path: 'docs/small.md', content: 's'.repeat(200) },
+            { path: 'docs/big.md', content: 'g'.repeat(2000) }
+        ],
+        omissions: []
+    };
+}
+
+function makeLoaders(document: PromptDocument): Map<PromptFileSection, DiffLoader> {
+    const loaders = new Map<PromptFileSection, DiffLoader>();
+    for (const section of document.files) {
+        loaders.set(section, async contextLines => contextLines < 3 ? section.diff.split('\n').slice(-1).join('\n') : section.diff);
+    }
+    return loaders;
+}
+
+describe('fitToBudget', () => {
+    it('returns the prompt unchanged when it already fits', async () => {
+        const document = makeDocument();
+        const result = await fitToBudget(document, { maxTokens: 100000, model: 'approximate' }, render, makeLoaders(document));
+
+        assert.ok(result.withinBudget);
+        assert.deepStrictEqual(result.omissions, []);
+        assert.strictEqual(result.text, render(makeDocument()));
+    });
+
+    it('drops content of added files before anything else', async () => {
+        const document = makeDocument();
+        const maxTokens = measure(makeDocument()) - 50;
+
+        const result = await fitToBudget(document, { maxTokens, model: 'approximate' }, render, makeLoaders(document));
+
+        assert.ok(result.withinBudget);
+        assert.deepStrictEqual(result.omissions.map(o => o.path), ['src/a.ts']);
+        assert.strictEqual(document.files[0].content, undefined);
+        assert.ok(document.files[1].content, 'Modified file keeps its content');
+    });
+
+    it('shrinks diff context and then drops the largest supplementary files', async () => {
+        const document = makeDocument();
+        const maxTokens = measure(makeDocument()) - 700;
+
+        const result = await fitToBudget(document, { maxTokens, model: 'approximate' }, render, makeLoaders(document));
+
+        assert.ok(result.withinBudget, `${result.tokens} > ${maxTokens}`);
+        assert.deepStrictEqual(result.omissions.map(o => o.path), ['src/a.ts', 'src/b.ts', undefined, 'docs/big.md']);
+        assert.strictEqual(document.files[1].diff, '+b');
+        assert.deepStrictEqual(document.contextFiles.map(f => f.path), ['docs/small.md']);
+        assert.ok(result.text.includes('"omitted"'));
+    });
+
+    it('reports when the prompt still does not fit', async () => {
+        const document = makeDocument();
+        const result = await fitToBudget(document, { maxTokens: 10, model: 'approximate' }, render, makeLoaders(document));
+
+        assert.ok(!result.withinBudget);
+        assert.strictEqual(document.contextFiles.length, 0);
+    });
+});
@@ -0,0 +1,135 @@
+import { countTokens } from '../utils/tokenEstimator';
+import { PromptDocument, PromptFileSection, PromptOmission, TokenBudget } from '../types';
+
+// Заново строит diff файла с заданным числом строк контекста (без --function-context)
+export type DiffLoader = (contextLines: number) => Promise<string>;
+
+export interface FitContext {
+    document: PromptDocument;
+    excess: number; // На сколько токенов промпт сейчас больше бюджета
+    countTokens(text: string): number;
+    reloadDiff(section: PromptFileSection, contextLines: number): Promise<string | undefined>;
+}
+
+/**
+ * Шаг подгонки промпта под бюджет. Стратегия убирает части документа, пока не покроет
+ * excess, и записывает убранное в document.omissions.
+ */
+export interface FitStrategy {
+    name: string;
+    apply(context: FitContext): Promise<void>;
+}
+
+export interface FitResult {
+    text: string;
+    tokens: number;
+    withinBudget: boolean;
+    omissions: PromptOmission[];
+}
+
+// Диффы этих файлов содержат файл целиком, так что content_source_branch его только дублирует
+const WHOLE_FILE_STATUSES = new Set(['A', '?']);
+
+const SHRUNK_CONTEXT_LINES = 1;
+
+/**
+ * Убирает элементы по одному, начиная с самых больших, пока не освободится excess токенов.
+ */
+function dropLargest<T>(items: T[], context: FitContext, size: (item: T) => number, drop: (item: T) => void): void {
+    let remaining = context.excess;
+    const sized = items.map(item => ({ item, tokens: size(item) })).sort((a, b) => b.tokens - a.tokens);
+    for (const { item, tokens } of sized) {
+        if (remaining <= 0) break;
+        drop(item);
+        remaining -= tokens;
+    }
+}
+
+export const dropRedundantContent: FitStrategy = {
+    name: 'Drop content of added files',
+    async apply(context) {
+        const sections = context.document.files.filter(f => f.content !== undefined && WHOLE_FILE_STATUSES.has(f.file.status));
+        dropLargest(sections, context, s => context.countTokens(s.content!), section => {
+            section.content = undefined;
+            context.document.omissions.push({ path: section.file.path, reason: 'Source branch content omitted: the diff contains the whole file.' });
+        });
+    }
+};
+
+export const dropFileContent: FitStrategy = {
+    name: 'Drop content of modified files',
+    async apply(context) {
+        const sections = context.document.files.filter(f => f.content !== undefined);
+        dropLargest(sections, context, s => context.countTokens(s.content!), section => {
+            section.content = undefined;
+            context.document.omissions.push({ path: section.file.path, reason: 'Source branch content omitted to fit the token budget; only the diff is included.' });
+        });
+    }
+};
+
+export const shrinkDiffContext: FitStrategy = {
+    name: 'Shrink diff context',
+    async apply(context) {
+        let shrunk = false;
+        for (const section of context.document.files) {
+            const diff = await context.reloadDiff(section, SHRUNK_CONTEXT_LINES);
+            if (diff !== undefined && diff.length < section.diff.length) {
+                section.diff = diff;
+                shrunk = true;
+            }
+        }
+        if (shrunk) {
+            context.document.omissions.push({ reason: `Diff context reduced to ${SHRUNK_CONTEXT_LINES} line around each change.` });
+        }
+    }
+};
+
+export const dropSupplementaryFiles: FitStrategy = {
+    name: 'Drop largest supplementary files',
+    async apply(context) {
+        const { document } = context;
+        dropLargest(document.contextFiles.slice(), context, f => context.countTokens(f.content ?? ''), file => {
+            document.contextFiles = document.contextFiles.filter(f => f !== file);
+            document.omissions.push({ path: file.path, reason: 'Supplementary file omitted to fit the token budget.' });
+        });
+    }
+};
+
+export const DEFAULT_FIT_STRATEGIES: FitStrategy[] = [
+    dropRedundantContent,
+    dropFileContent,
+    shrinkDiffContext,
+    dropSupplementaryFiles
+];
+
+/**
+ * Применяет стратегии по порядку, пока отрендеренный промпт не уложится в бюджет.
+ * Если не помогли все стратегии, возвращает лучший результат с withinBudget = false.
+ */
+export async function fitToBudget(
+    document: PromptDocument,
+    budget: TokenBudget,
+    render: (document: PromptDocument) => string,
+    diffLoaders: Map<PromptFileSection, DiffLoader>,
+    strategies: FitStrategy[] = DEFAULT_FIT_STRATEGIES
+): Promise<FitResult> {
+    const count = (text: string) => countTokens(text, budget.model);
+    const context: FitContext = {
+        document,
+        excess: 0,
+        countTokens: count,
+        reloadDiff: async (section, contextLines) => diffLoaders.get(section)?.(contextLines)
+    };
+
+    let text = render(document);
+    let tokens = count(text);
+    for (const strategy of strategies) {
+        if (tokens <= budget.maxTokens) break;
+        context.excess = tokens - budget.maxTokens;
+        await strategy.apply(context);
+        text = render(document);
+        tokens = count(text);
+    }
+
+    return { text, tokens, withinBudget: tokens <= budget.maxTokens, omissions: document.omissions };
+}
@@ -0,0 +1,201 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cp from 'child_process';
+import { GitService, WORKING_TREE_REF } from './gitService';
+import { PromptGenerator } from './promptGenerator';
+import { RedactionReport } from './redaction';
+import { PromptConfig } from '../types';
+
+// Репозиторий с веткой feature, в которой изменен README.md и добавлен src/app.ts
+function createTestGitRepo(name: string): string {
+    const tmpDir = path.join(__dirname, `../../.test-tmp-${name}-${Date.now()}`);
+    fs.mkdirSync(tmpDir, { recursive: true });
+
+    cp.execSync('git init', { cwd: tmpDir });
+    cp.execSync('git config user.email "test@example.com"', { cwd: tmpDir });
+    cp.execSync('git config user.name "Test User"', { cwd: tmpDir });
+    fs.writeFileSync(path.join(tmpDir, 'README.md'), '# Test Repo\n');
+    cp.execSync('git add .', { cwd: tmpDir });
+    cp.execSync('git commit -m "Initial commit"', { cwd: tmpDir });
+
+    cp.execSync('git checkout -b feature', { cwd: tmpDir });
+    fs.mkdirSync(path.join(tmpDir, 'src'));
+    fs.writeFileSync(path.join(tmpDir, 'src', 'app.ts'), 'export const a = 1 < 2;\n');
+    fs.writeFileSync(path.join(tmpDir, 'README.md'), '# Changed\n');
+    cp.execSync('git add .', { cwd: tmpDir });
+    cp.execSync('git commit -m "Feature"', { cwd: tmpDir });
+
+    return tmpDir;
+}
+
+function baseConfig(overrides: Partial<PromptConfig> = {}): PromptConfig {
+    return {
+        sourceBranch: 'feature',
+        targetBranch: 'master',
+        instruction: 'Review changes.',
+        files: [{ path: 'src/app.ts', status: 'A' }, { path: 'README.md', status: 'M' }],
+        ...overrides
+    };
+}
+
+describe('PromptGenerator', () => {
+    const repos: string[] = [];
+
+    afterEach(() => {
+        while (repos.length > 0) {
+            fs.rmSync(repos.pop()!, { recursive: true, force: true });
+        }
+    });
+
+    function makeGitService(name: string): GitService {
+        const repo = createTestGitRepo(name);
+        repos.push(repo);
+        return new GitService(repo);
+    }
+
+    it('renders instructions, branches, diffs and escaped content', async () => {
+        const generator = new PromptGenerator(makeGitService('single'));
+
+        const prompt = await generator.generate(baseConfig({ contextFiles: ['README.md'] }));
+
+        assert.ok(prompt.startsWith('<instructions>\nReview changes.\n</instructions>'));
+        assert.ok(prompt.includes('<source>feature</source>'));
+        assert.ok(prompt.includes('<target>master</target>'));
+        assert.ok(prompt.includes('<file path="src/app.ts" status="A">'));
+        assert.ok(prompt.includes('export const a = 1 &lt; 2;'), 'Content should be XML-escaped');
+        assert.ok(prompt.includes('<supplementary_files>'));
+        assert.ok(prompt.includes('    README.md\n    src/app.ts'), 'Directory structure should be sorted');
+    });
+
+    it('prefixes paths with the repository name when spanning repositories', async () => {
+        const api = makeGitService('api');
+        const web = makeGitService('web');
+        const generator = new PromptGenerator(api);
+
+        const prompt = await generator.generateForRepositories([
+            { name: 'api', gitService: api, config: baseConfig() },
+            { name: 'web', gitService: web, config: baseConfig({ files: [{ path: 'README.md', status: 'M' }] }) }
+        ], 'Review both.');
+
+        assert.ok(prompt.includes('<branches repository="api">'));
+        assert.ok(prompt.includes('<branches repository="web">'));
+        assert.ok(prompt.includes('<file path="api/src/app.ts" status="A">'));
+        assert.ok(prompt.includes('<file path="web/README.md" status="M">'));
+        assert.ok(prompt.includes('    api/README.md\n    api/src/app.ts\n    web/README.md'));
+        assert.ok(prompt.includes('<instructions>\nReview both.\n</instructions>'));
+    });
+
+    it('omits content to fit the token budget and lists what was dropped', async () => {
+        const generator = new PromptGenerator(makeGitService('budget'));
+        const repo = repos[repos.length - 1];
+        fs.writeFileSync(path.join(repo, 'src', 'app.ts'), 'export const a = 1 < 2;\n'.repeat(50));
+        cp.execSync('git commit -am "Grow app"', { cwd: repo });
+        const full = await generator.generate(baseConfig());
+        const maxTokens = Math.ceil(full.length / 4) - 1;
+
+        const result = await generator.generateWithinBudget(baseConfig(), { maxTokens, model: 'approximate' });
+
+        assert.ok(result.withinBudget, `${result.tokens} > ${maxTokens}`);
+        assert.deepStrictEqual(result.omissions.map(o => o.path), ['src/app.ts']);
+        assert.ok(!result.text.includes('<content_source_branch>\nexport const'), 'Added file content is in the diff already');
+        assert.ok(result.text.includes('<omitted>\n        <item path="src/app.ts">'));
+        assert.ok(result.text.includes('<content_source_branch>\n# Changed'), 'Modified file keeps its content');
+    });
+
+    it('emits only the selected hunks and notes the partial file', async () => {
+        const gitService = makeGitService('hunks');
+        const repo = repos[repos.length - 1];
+        const lines = Array.from({ length: 30 }, (_, i) => `line ${i}`);
+        fs.writeFileSync(path.join(repo, 'long.txt'), lines.join('\n') + '\n');
+        cp.execSync('git add long.txt && git commit -m "Add long"', { cwd: repo });
+        lines[1] = 'first change';
+        lines[28] = 'second change';
+        fs.writeFileSync(path.join(repo, 'long.txt'), lines.join('\n') + '\n');
+
+        const config = baseConfig({
+            sourceBranch: WORKING_TREE_REF,
+            targetBranch: 'HEAD',
+            files: [{ path: 'long.txt', status: 'M' }],
+            selectedHunks: { 'long.txt': [1] }
+        });
+
+        const partial = await new PromptGenerator(gitService).generate({ ...config, omitPartialContent: true });
+        assert.ok(partial.includes('+second change'));
+        assert.ok(!partial.includes('+first change'), 'Unselected hunk should be left out');
+        assert.ok(!partial.includes('<content_source_branch>'));
+        assert.ok(partial.includes('<item path="long.txt">Only 1 of 2 hunks are included; source branch content omitted.</item>'));
+
+        const withContent = await new PromptGenerator(gitService).generate({ ...config, omitPartialContent: false });
+        assert.ok(withContent.includes('<content_source_branch>\nline 0\nfirst change'));
+    });
+
+    it('marks binary files and truncates large ones', async () => {
+        const gitService = makeGitService('binary');
+        const repo = repos[repos.length - 1];
+        fs.writeFileSync(path.join(repo, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+        fs.writeFileSync(path.join(repo, 'big.txt'), Array.from({ length: 500 }, (_, i) => `row ${i}`).join('\n') + '\n');
+
+        const prompt = await new PromptGenerator(gitService).generate(baseConfig({
+            sourceBranch: WORKING_TREE_REF,
+            targetBranch: 'HEAD',
+            files: [{ path: 'logo.png', status: '?' }],
+            contextFiles: ['big.txt'],
+            contentLimits: { maxBytes: 1024, keepLines: 2 }
+        }));
+
+        assert.ok(prompt.includes('<file path="logo.png" status="?" binary="true" size="7">'));
+        assert.ok(!prompt.includes('<content_source_branch>'), 'Binary content is left out');
+        assert.ok(prompt.includes('<file path="big.txt" truncated="true" size="3890">'));
+        assert.ok(prompt.includes('row 0\nrow 1\n[... 496 lines truncated ...]\nrow 498\nrow 499\n'));
+    });
+
+    it('includes outline files as declarations only', async () => {
+        const gitService = makeGitService('outline');
+        const repo = repos[repos.length - 1];
+        fs.writeFileSync(path.join(repo, 'api.ts'), 'export function get(id: string): string {\n    return id.trim();\n}\n');
+
+        const prompt = await new PromptGenerator(gitService).generate(baseConfig({
+            sourceBranch: WORKING_TREE_REF,
+            targetBranch: 'HEAD',
+            files: [],
+            contextFiles: ['api.ts'],
+            outlineFiles: ['api.ts']
+        }));
+
+        assert.ok(prompt.includes('<file path="api.ts" mode="outline">\n<content>\nexport function get(id: string): string { ... }\n'));
+        assert.ok(!prompt.includes('id.trim()'));
+    });
+
+    it('fills commit subjects of a branch review from the log', async () => {
+        const generator = new PromptGenerator(makeGitService('subjects'));
+
+        const prompt = await generator.generate(baseConfig({ instruction: 'Commits:\n{{commitSubjects}}', commits: [] }));
+
+        assert.ok(prompt.includes('Commits:\n- Feature'));
+        assert.ok(!prompt.includes('Initial commit'));
+    });
+
+    it('leaves out denied files and redacts secrets', async () => {
+        const gitService = makeGitService('redaction');
+        const repo = repos[repos.length - 1];
+        fs.writeFileSync(path.join(repo, '.env'), 'API_TOKEN=abcdef\n');
+        fs.writeFileSync(path.join(repo, 'config.ts'), "export const dbPassword = 'hunter22';\n");
+        const report = new RedactionReport();
+
+        const prompt = await new PromptGenerator(gitService).generate(baseConfig({
+            sourceBranch: WORKING_TREE_REF,
+            targetBranch: 'HEAD',
+            files: [{ path: '.env', status: '?' }, { path: 'config.ts', status: '?' }],
+            redaction: { detectSecrets: true, denyPatterns: ['.env'] }
+        }), report);
+
+        assert.ok(!prompt.includes('abcdef'));
+        assert.ok(!prompt.includes('hunter22'));
+        assert.ok(prompt.includes("export const dbPassword = '[REDACTED: Password assignment]';"));
+        assert.ok(prompt.includes('<item path=".env">Blocked by aiReview.denyPatterns.</item>'));
+        assert.ok(!/<directory_structure>[\s\S]*\.env[\s\S]*<\/directory_structure>/.test(prompt), 'Denied file should not be in the structure');
+        assert.deepStrictEqual(report.blocked, ['.env']);
+        assert.deepStrictEqual(report.getRedacted(), [{ path: 'config.ts', detectors: ['Password assignment'] }]);
+    });
+});
@@ -1,5 +1,31 @@
-import { GitService } from './gitService';
-import { PromptConfig } from '../types';
+import { GitService, isUncommittedRef } from './gitService';
+import { getFindingsContract } from './findings';
+import { getTemplateVariables, resolveTemplate } from './instructionTemplates';
+import { getOutlineProvider } from './outlineProviders';
+import { DiffLoader, FitResult, fitToBudget } from './promptBudget';
+import { getPromptRenderer } from './promptRenderer';
+import { RedactionReport, createSecretDetectors, redactSecrets } from './redaction';
+import { isTestFile } from './testPairing';
+import { parseDiff, selectHunks } from '../utils/diffHunks';
+import { classifyContent, formatSize, isBinaryContent, isBinaryDiff, truncateContent } from '../utils/fileContent';
+import { isMatch } from '../utils/glob';
+import { CommitInfo, PromptConfig, PromptContextFileSection, PromptDocument, PromptFileRole, PromptFileSection, PromptFormat, TokenBudget } from '../types';
+
+/**
+ * Ревью одного репозитория в составе промпта по нескольким репозиториям.
+ * Пути его файлов в промпте получают префикс name/.
+ */
+export interface RepositoryReview {
+    name: string;
+    gitService: GitService;
+    config: PromptConfig;
+}
+
+// Текст промпта и модель, из которой он отрендерен (для разбивки токенов по разделам в превью)
+export interface PromptPreview {
+    text: string;
+    document: PromptDocument;
+}
 
 export class PromptGenerator {
     private gitService: GitService;
@@ -8,87 +34,214 @@ export class PromptGenerator {
         this.gitService = gitService;
     }
 
-    public async generate(config: PromptConfig): Promise<string> {
-        const { files, sourceBranch, targetBranch, instruction, contextFiles } = config;
+    public setGitService(gitService: GitService): void {
+        this.gitService = gitService;
+    }
 
-        // 1. Генерация структуры директорий (включаем и измененные, и контекстные файлы)
-        const allPaths = [...files.map(f => f.path), ...(contextFiles || [])];
-        const uniquePaths = Array.from(new Set(allPaths));
-        const dirStructure = this.generateDirectoryStructure(uniquePaths);
+    /**
+     * @param report если передан, в него попадают файлы, скрытые по config.redaction
+     */
+    public async generate(config: PromptConfig, report?: RedactionReport): Promise<string> {
+        return (await this.generatePreview(config, report)).text;
+    }
 
-        // 2. Сборка контента измененных файлов (Diff + Content)
-        let filesXmlContent = '';
+    public async generatePreview(config: PromptConfig, report?: RedactionReport): Promise<PromptPreview> {
+        const document = await this.collect(config.instruction, [{ gitService: this.gitService, config }], undefined, report);
+        return { text: getPromptRenderer(config.format).render(document), document };
+    }
 
-        for (const file of files) {
-            const isDeleted = file.status === 'D';
-            const diff = await this.gitService.getFileDiff(targetBranch, sourceBranch, file.path);
-            
-            let content = '';
-            if (!isDeleted) {
-                content = await this.gitService.getFileContent(sourceBranch, file.path);
-            }
+    /**
+     * Промпт, подогнанный под бюджет токенов: части, которые не влезли, убираются
+     * стратегиями из promptBudget и перечисляются в самом промпте.
+     */
+    public async generateWithinBudget(config: PromptConfig, budget: TokenBudget, report?: RedactionReport): Promise<FitResult> {
+        const diffLoaders = new Map<PromptFileSection, DiffLoader>();
+        const document = await this.collect(config.instruction, [{ gitService: this.gitService, config }], diffLoaders, report);
+        const renderer = getPromptRenderer(config.format);
+        return fitToBudget(document, budget, doc => renderer.render(doc), diffLoaders);
+    }
+
+    /**
+     * Один промпт по нескольким репозиториям. Инструкция общая, ветки у каждого репозитория свои.
+     */
+    public async generateForRepositories(
+        reviews: RepositoryReview[],
+        instruction: string,
+        format?: PromptFormat,
+        report?: RedactionReport
+    ): Promise<string> {
+        const document = await this.collect(instruction, reviews, undefined, report);
+        return getPromptRenderer(format).render(document);
+    }
 
-            filesXmlContent += `
-<file path="${file.path}" status="${file.status}">
-<diff>
-${this.escapeXml(diff)}
-</diff>
-${!isDeleted ? `<content_source_branch>\n${this.escapeXml(content)}\n</content_source_branch>` : ''}
-</file>
-`;
+    /**
+     * Коммиты ревью для {{commitSubjects}}: у диапазона коммитов они уже в config,
+     * а для ревью веток берутся из git log merge-base..source.
+     */
+    private async getReviewCommits(gitService: GitService, config: PromptConfig): Promise<CommitInfo[]> {
+        if (config.commits && config.commits.length > 0) {
+            return config.commits;
         }
+        const head = isUncommittedRef(config.sourceBranch) ? 'HEAD' : config.sourceBranch;
+        return gitService.getCommits(config.mergeBase ?? config.targetBranch, head);
+    }
 
-        // 3. Сборка контента контекстных файлов (Только Content)
-        let contextXmlContent = '';
-        if (contextFiles && contextFiles.length > 0) {
-            contextXmlContent = '<supplementary_files>\n';
-            for (const path of contextFiles) {
-                // Берем контент из sourceBranch, так как ревьюим его состояние
-                const content = await this.gitService.getFileContent(sourceBranch, path);
-                if (content) {
-                    contextXmlContent += `
-<file path="${path}">
-<content>
-${this.escapeXml(content)}
-</content>
-</file>
-`;
+    private async collect(
+        instruction: string,
+        reviews: Array<{ name?: string; gitService: GitService; config: PromptConfig }>,
+        diffLoaders?: Map<PromptFileSection, DiffLoader>,
+        report?: RedactionReport
+    ): Promise<PromptDocument> {
+        const variables = getTemplateVariables(await Promise.all(reviews.map(async ({ gitService, config }) =>
+            ({ ...config, commits: await this.getReviewCommits(gitService, config) })
+        )));
+        const document: PromptDocument = {
+            instruction: resolveTemplate(instruction, variables),
+            repositories: [],
+            paths: [],
+            files: [],
+            contextFiles: [],
+            omissions: [],
+            outputContract: reviews[0]?.config.findingsFormat ? getFindingsContract(reviews[0].config.findingsFormat) : undefined
+        };
+
+        for (const { name, gitService, config } of reviews) {
+            const { files, sourceBranch, targetBranch, mergeBase, commits, contextFiles, diffOptions } = config;
+            document.part = config.part;
+            const baseRef = mergeBase ?? targetBranch;
+            const prefix = (p: string) => name ? `${name}/${p}` : p;
+            const roleOf = (p: string): PromptFileRole | undefined =>
+                config.testPairingRules && isTestFile(p, config.testPairingRules) ? 'test' : undefined;
+
+            // Секреты заменяются во всем тексте файлов, файлы из deny-list пропускаются целиком
+            const { redaction } = config;
+            const detectors = redaction ? createSecretDetectors(redaction.detectSecrets, redaction.secretPatterns) : [];
+            const isDenied = (p: string) => redaction !== undefined && isMatch(p, redaction.denyPatterns);
+            const block = (p: string) => {
+                report?.addBlocked(prefix(p));
+                document.omissions.push({ path: prefix(p), reason: 'Blocked by aiReview.denyPatterns.' });
+            };
+            const redact = (text: string, p: string): string => {
+                if (detectors.length === 0) return text;
+                const result = redactSecrets(text, detectors);
+                report?.addRedacted(prefix(p), result.detectors);
+                return result.text;
+            };
+
+            document.repositories.push({ name, sourceBranch, targetBranch, mergeBase, commits });
+
+            // 1. Структура директорий (включаем и измененные, и контекстные файлы, кроме закрытых deny-list)
+            const structurePaths = config.structurePaths ?? [...files.map(f => f.path), ...(contextFiles || [])];
+            document.paths.push(...structurePaths.filter(p => !isDenied(p)).map(prefix));
+
+            // 2. Измененные файлы (Diff + Content)
+            for (const file of files) {
+                if (isDenied(file.path) || (file.oldPath && isDenied(file.oldPath))) {
+                    block(file.path);
+                    continue;
+                }
+                const isDeleted = file.status === 'D';
+                const hunks = config.selectedHunks?.[file.path];
+                const skipContent = isDeleted || (hunks !== undefined && config.omitPartialContent);
+                let diff = await gitService.getFileDiff(baseRef, sourceBranch, file, diffOptions);
+                let content = skipContent ? undefined : await gitService.getFileContent(sourceBranch, file.path);
+                let binary = isBinaryDiff(diff);
+                let size: number | undefined;
+                let truncated = false;
+
+                // Бинарные, сгенерированные и слишком большие файлы идут без содержимого, только diff
+                if (content !== undefined) {
+                    const kind = binary ? 'binary' : classifyContent(content, config.contentLimits);
+                    if (kind !== 'text') {
+                        size = await gitService.getFileSize(sourceBranch, file.path) ?? Buffer.byteLength(content);
+                        binary = kind === 'binary';
+                        content = undefined;
+                    }
+                    if (kind === 'generated') {
+                        document.omissions.push({ path: prefix(file.path), reason: 'Source branch content omitted: the file looks minified or generated.' });
+                    } else if (kind === 'large') {
+                        document.omissions.push({
+                            path: prefix(file.path),
+                            reason: `Source branch content omitted: ${formatSize(size!)} is above the ${formatSize(config.contentLimits!.maxBytes)} limit.`
+                        });
+                    }
                 }
+                if (config.contentLimits && !hunks && Buffer.byteLength(diff) > config.contentLimits.maxBytes) {
+                    diff = truncateContent(diff, config.contentLimits);
+                    truncated = true;
+                    document.omissions.push({ path: prefix(file.path), reason: 'Diff truncated to its beginning and end.' });
+                }
+
+                if (hunks) {
+                    const total = parseDiff(diff).hunks.length;
+                    diff = selectHunks(diff, hunks);
+                    document.omissions.push({
+                        path: prefix(file.path),
+                        reason: `Only ${hunks.length} of ${total} hunks are included`
+                            + (isDeleted || content !== undefined ? '.' : '; source branch content omitted.')
+                    });
+                }
+
+                const section: PromptFileSection = {
+                    file: { ...file, path: prefix(file.path), oldPath: file.oldPath && prefix(file.oldPath) },
+                    diff: redact(diff, file.path),
+                    content: content !== undefined ? redact(content, file.path) : undefined,
+                    role: roleOf(file.path),
+                    binary: binary || undefined,
+                    size,
+                    truncated: truncated || undefined
+                };
+                document.files.push(section);
+                // Индексы выбранных hunks относятся к diff с текущим контекстом, поэтому такой diff не перестраиваем
+                if (hunks || truncated || binary) continue;
+                diffLoaders?.set(section, async contextLines => redact(
+                    await gitService.getFileDiff(baseRef, sourceBranch, file, { ...diffOptions, contextLines, functionContext: false }),
+                    file.path
+                ));
             }
-            contextXmlContent += '</supplementary_files>';
-        }
 
-        // 4. Сборка итогового промпта
-        return `
-<instructions>
-${instruction}
-</instructions>
-
-<context>
-    <branches>
-        <source>${sourceBranch}</source>
-        <target>${targetBranch}</target>
-    </branches>
-    <directory_structure>
-${dirStructure}
-    </directory_structure>
-    ${contextXmlContent}
-</context>
-
-<files>
-${filesXmlContent}
-</files>
-`.trim();
-    }
+            // 3. Контекстные файлы (Только Content)
+            for (const contextPath of contextFiles || []) {
+                if (isDenied(contextPath)) {
+                    block(contextPath);
+                    continue;
+                }
+                // Берем контент из sourceBranch, так как ревьюим его состояние
+                let content = await gitService.getFileContent(sourceBranch, contextPath);
+                if (!content) continue;
 
-    private generateDirectoryStructure(paths: string[]): string {
-        return paths.sort().map(p => `    ${p}`).join('\n');
-    }
+                const section: PromptContextFileSection = { path: prefix(contextPath), role: roleOf(contextPath) };
+                const outlineProvider = config.outlineFiles?.includes(contextPath) ? getOutlineProvider(contextPath) : undefined;
+                if (outlineProvider && !isBinaryContent(content)) {
+                    content = outlineProvider.outline(content, contextPath);
+                    section.mode = 'outline';
+                }
+                const kind = classifyContent(content, config.contentLimits);
+                if (kind !== 'text') {
+                    section.size = await gitService.getFileSize(sourceBranch, contextPath) ?? Buffer.byteLength(content);
+                }
+                switch (kind) {
+                    case 'binary':
+                        section.binary = true;
+                        break;
+                    case 'generated':
+                        document.omissions.push({ path: section.path, reason: 'Content omitted: the file looks minified or generated.' });
+                        break;
+                    case 'large':
+                        section.content = truncateContent(content, config.contentLimits!);
+                        section.truncated = true;
+                        break;
+                    default:
+                        section.content = content;
+                }
+                if (section.content !== undefined) {
+                    section.content = redact(section.content, contextPath);
+                }
+                document.contextFiles.push(section);
+            }
+        }
 
-    private escapeXml(unsafe: string): string {
-        return unsafe
-            .replace(/&/g, '&amp;')
-            .replace(/</g, '&lt;')
-            .replace(/>/g, '&gt;');
+        document.paths = Array.from(new Set(document.paths));
+        return document;
     }
 }
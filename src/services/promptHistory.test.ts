@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptHistory, getExportFileName } from './promptHistory';
+import { SessionStorage } from './sessionStore';
+import { PromptHistoryEntry } from '../types';
+
+class MemoryStorage implements SessionStorage {
+    private values = new Map<string, unknown>();
+
+    get<T>(key: string): T | undefined {
+        const value = this.values.get(key);
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+function entry(sourceBranch: string): Omit<PromptHistoryEntry, 'id' | 'createdAt'> {
+    return {
+        format: 'markdown',
+        instruction: 'Review changes.',
+        tokens: 120,
+        repositories: [{ sourceBranch, targetBranch: 'main', sourceSha: 'a'.repeat(40), targetSha: 'b'.repeat(40) }],
+        files: ['src/a.ts'],
+        contextFiles: []
+    };
+}
+
+describe('PromptHistory', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-review-history-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('stores prompts newest first with their text', async () => {
+        const history = new PromptHistory(new MemoryStorage(), path.join(tmpDir, 'prompts'));
+        const first = await history.add(entry('feature/a'), '# first');
+        const second = await history.add(entry('feature/b'), '# second');
+
+        assert.deepStrictEqual(history.list().map(e => e.id), [second.id, first.id]);
+        assert.strictEqual(await history.readText(first), '# first');
+        assert.ok(history.getTextPath(second).endsWith('.md'));
+    });
+
+    it('drops the oldest prompts over the limit', async () => {
+        const history = new PromptHistory(new MemoryStorage(), tmpDir, 2);
+        const oldest = await history.add(entry('a'), 'a');
+        await history.add(entry('b'), 'b');
+        await history.add(entry('c'), 'c');
+
+        assert.deepStrictEqual(history.list().map(e => e.repositories[0].sourceBranch), ['c', 'b']);
+        assert.ok(!fs.existsSync(history.getTextPath(oldest)));
+    });
+
+    it('deletes and clears entries with their files', async () => {
+        const history = new PromptHistory(new MemoryStorage(), tmpDir);
+        const a = await history.add(entry('a'), 'a');
+        const b = await history.add(entry('b'), 'b');
+
+        assert.ok(await history.delete(a.id));
+        assert.ok(!await history.delete(a.id));
+        assert.strictEqual(await history.readText(a), undefined);
+
+        await history.clear();
+        assert.deepStrictEqual(history.list(), []);
+        assert.ok(!fs.existsSync(history.getTextPath(b)));
+    });
+
+    it('names exported files by time and source branch', () => {
+        const createdAt = new Date(2024, 4, 1, 14, 30, 5).getTime();
+        const name = getExportFileName({ ...entry('feature/login'), createdAt, part: { index: 2, total: 3 } });
+        assert.strictEqual(name, '2024-05-01-143005-feature-login-part2.md');
+    });
+});
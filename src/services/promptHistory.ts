@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { SessionStorage } from './sessionStore';
+import { PromptFormat, PromptHistoryEntry } from '../types';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export const PROMPT_FILE_EXTENSIONS: Record<PromptFormat, string> = {
+    xml: 'xml',
+    markdown: 'md',
+    json: 'json'
+};
+
+const STORAGE_KEY = 'aiReview.promptHistory';
+
+/**
+ * История промптов workspace: метаданные в storage (workspaceState), тексты — файлами
+ * в directory. Сверх limit удаляются самые старые записи вместе с файлами.
+ */
+export class PromptHistory {
+    constructor(
+        private readonly storage: SessionStorage,
+        private readonly directory: string,
+        private limit: number = DEFAULT_HISTORY_LIMIT
+    ) { }
+
+    // Сначала новые
+    public list(): PromptHistoryEntry[] {
+        return this.read();
+    }
+
+    public get(id: string): PromptHistoryEntry | undefined {
+        return this.read().find(e => e.id === id);
+    }
+
+    public getTextPath(entry: PromptHistoryEntry): string {
+        return path.join(this.directory, `${entry.id}.${PROMPT_FILE_EXTENSIONS[entry.format]}`);
+    }
+
+    public async readText(entry: PromptHistoryEntry): Promise<string | undefined> {
+        try {
+            return await fs.promises.readFile(this.getTextPath(entry), 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    public async add(entry: Omit<PromptHistoryEntry, 'id' | 'createdAt'>, text: string): Promise<PromptHistoryEntry> {
+        const createdAt = Date.now();
+        const saved: PromptHistoryEntry = { ...entry, id: `${createdAt.toString(36)}-${randomBytes(3).toString('hex')}`, createdAt };
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(this.getTextPath(saved), text, 'utf8');
+
+        const entries = [saved, ...this.read()];
+        await this.removeFiles(entries.slice(this.limit));
+        await this.write(entries.slice(0, this.limit));
+        return saved;
+    }
+
+    public async delete(id: string): Promise<boolean> {
+        const entries = this.read();
+        const entry = entries.find(e => e.id === id);
+        if (!entry) {
+            return false;
+        }
+        await this.removeFiles([entry]);
+        await this.write(entries.filter(e => e !== entry));
+        return true;
+    }
+
+    public async clear(): Promise<void> {
+        await this.removeFiles(this.read());
+        await this.write([]);
+    }
+
+    // Новый лимит применяется при следующем добавлении
+    public setLimit(limit: number): void {
+        this.limit = Math.max(1, limit);
+    }
+
+    private async removeFiles(entries: PromptHistoryEntry[]): Promise<void> {
+        await Promise.all(entries.map(e => fs.promises.rm(this.getTextPath(e), { force: true })));
+    }
+
+    private read(): PromptHistoryEntry[] {
+        return this.storage.get<PromptHistoryEntry[]>(STORAGE_KEY) ?? [];
+    }
+
+    private async write(entries: PromptHistoryEntry[]): Promise<void> {
+        await this.storage.update(STORAGE_KEY, entries);
+    }
+}
+
+/**
+ * Имя файла для экспорта: время генерации и source ветка, например 2024-05-01-143000-feature-login.md
+ */
+export function getExportFileName(entry: Pick<PromptHistoryEntry, 'createdAt' | 'format' | 'repositories' | 'part'>): string {
+    const date = new Date(entry.createdAt);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    const source = entry.repositories[0]?.sourceBranch ?? 'prompt';
+    const slug = source.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'prompt';
+    const part = entry.part ? `-part${entry.part.index}` : '';
+    return `${stamp}-${slug}${part}.${PROMPT_FILE_EXTENSIONS[entry.format]}`;
+}
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { getPromptRenderer } from './promptRenderer';
+import { PromptDocument } from '../types';
+
+function makeDocument(): PromptDocument {
+    return {
+        instruction: 'Review changes.',
+        repositories: [{ sourceBranch: 'feature', targetBranch: 'main', mergeBase: 'abc123' }],
+        paths: ['src/say "hi".ts', 'README.md'],
+        contextFiles: [{ path: 'README.md', content: 'Use ```ts fences``` here' }],
+        files: [
+            {
+                file: { path: 'src/say "hi".ts', oldPath: 'src/old.ts', similarity: 90, status: 'R' },
+                diff: '-a < b\n+a > b',
+                content: 'const s = "<tag>";'
+            },
+            { file: { path: 'gone.py', status: 'D' }, diff: '-print(1)' }
+        ],
+        omissions: []
+    };
+}
+
+describe('prompt renderers', () => {
+    it('xml escapes quotes in attributes and markup in content', () => {
+        const prompt = getPromptRenderer('xml').render(makeDocument());
+
+        assert.ok(prompt.includes('<file path="src/say &quot;hi&quot;.ts" old_path="src/old.ts" similarity="90" status="R">'));
+        assert.ok(prompt.includes('-a &lt; b\n+a &gt; b'));
+        assert.ok(prompt.includes('<content_source_branch>\nconst s = "&lt;tag&gt;";\n</content_source_branch>'));
+        assert.ok(prompt.includes('<merge_base>abc123</merge_base>'));
+        assert.ok(!prompt.includes('<content_source_branch>\n\n'), 'Deleted files have no content');
+    });
+
+    it('markdown labels fences by language and outgrows backticks in content', () => {
+        const prompt = getPromptRenderer('markdown').render(makeDocument());
+
+        assert.ok(prompt.startsWith('# Instructions\n\nReview changes.'));
+        assert.ok(prompt.includes('- Merge base: `abc123`'));
+        assert.ok(prompt.includes('## `src/say "hi".ts` (Renamed from `src/old.ts`, 90%)'));
+        assert.ok(prompt.includes('```diff\n-a < b\n+a > b\n```'));
+        assert.ok(prompt.includes('```typescript\nconst s = "<tag>";\n```'));
+        assert.ok(prompt.includes('````markdown\nUse ```ts fences``` here\n````'), 'Fence must be longer than backtick runs');
+        assert.ok(prompt.includes('## `gone.py` (Deleted)\n\n### Diff\n\n```diff\n-print(1)\n```'));
+    });
+
+    it('json round-trips the document', () => {
+        const prompt = getPromptRenderer('json').render(makeDocument());
+        const parsed = JSON.parse(prompt);
+
+        assert.strictEqual(parsed.instructions, 'Review changes.');
+        assert.deepStrictEqual(parsed.branches, [{ source: 'feature', target: 'main', mergeBase: 'abc123' }]);
+        assert.deepStrictEqual(parsed.directoryStructure, ['README.md', 'src/say "hi".ts']);
+        assert.strictEqual(parsed.files[0].path, 'src/say "hi".ts');
+        assert.strictEqual(parsed.files[0].oldPath, 'src/old.ts');
+        assert.strictEqual(parsed.files[0].contentSourceBranch, 'const s = "<tag>";');
+        assert.ok(!('contentSourceBranch' in parsed.files[1]), 'Deleted files have no content');
+    });
+
+    it('tags test files with their role in every format', () => {
+        const document = makeDocument();
+        document.contextFiles.push({ path: 'src/say.test.ts', content: 'it()', role: 'test' });
+
+        assert.ok(getPromptRenderer('xml').render(document).includes('<file path="src/say.test.ts" role="test">'));
+        assert.ok(getPromptRenderer('markdown').render(document).includes('### `src/say.test.ts` (test)'));
+        const parsed = JSON.parse(getPromptRenderer('json').render(document));
+        assert.strictEqual(parsed.supplementaryFiles[1].role, 'test');
+        assert.ok(!('role' in parsed.supplementaryFiles[0]));
+    });
+
+    it('states the part number before the instructions in every format', () => {
+        const document = { ...makeDocument(), part: { index: 2, total: 3 } };
+
+        assert.ok(getPromptRenderer('xml').render(document).startsWith('<part index="2" total="3">\nThis review is split into 3 prompts; this is part 2 of 3.'));
+        assert.ok(getPromptRenderer('markdown').render(document).startsWith('# Part 2 of 3\n\n'));
+        const part = JSON.parse(getPromptRenderer('json').render(document)).part;
+        assert.strictEqual(part.index, 2);
+        assert.strictEqual(part.total, 3);
+    });
+
+    it('puts the output contract at the end in every format', () => {
+        const document = { ...makeDocument(), outputContract: 'Respond with {"findings": []}.' };
+
+        assert.ok(getPromptRenderer('xml').render(document).endsWith('<output_format>\nRespond with {"findings": []}.\n</output_format>'));
+        assert.ok(getPromptRenderer('markdown').render(document).endsWith('# Output Format\n\nRespond with {"findings": []}.'));
+        assert.strictEqual(JSON.parse(getPromptRenderer('json').render(document)).outputFormat, 'Respond with {"findings": []}.');
+        assert.ok(!getPromptRenderer('xml').render(makeDocument()).includes('<output_format>'));
+    });
+});
@@ -0,0 +1,305 @@
+import { describeRef } from './gitService';
+import { ChangedFile, PromptContextFileMode, PromptDocument, PromptFileRole, PromptFormat, PromptPart, PromptRepositorySection } from '../types';
+import { formatSize } from '../utils/fileContent';
+import { getLanguageId } from '../utils/language';
+
+export interface PromptRenderer {
+    render(document: PromptDocument): string;
+}
+
+export function getPromptRenderer(format: PromptFormat = 'xml'): PromptRenderer {
+    switch (format) {
+        case 'markdown': return new MarkdownPromptRenderer();
+        case 'json': return new JsonPromptRenderer();
+        default: return new XmlPromptRenderer();
+    }
+}
+
+// Пометки файла, которые рендереры выводят рядом с путем
+interface FileNotes {
+    role?: PromptFileRole;
+    mode?: PromptContextFileMode;
+    binary?: boolean;
+    size?: number;
+    truncated?: boolean;
+}
+
+function describeNotes(notes: FileNotes): string[] {
+    const result: string[] = [];
+    if (notes.role) result.push(notes.role);
+    if (notes.mode) result.push(notes.mode);
+    if (notes.binary) result.push('binary');
+    if (notes.truncated) result.push('truncated');
+    if (notes.size !== undefined) result.push(formatSize(notes.size));
+    return result;
+}
+
+// Пояснение для модели, что она видит только часть ревью
+function describePart(part: PromptPart): string {
+    return `This review is split into ${part.total} prompts; this is part ${part.index} of ${part.total}. `
+        + 'It contains only some of the changed files, while the directory structure lists every file of the review.'
+        + (part.index === 1 ? '' : ' Supplementary files, if any, were sent in part 1.');
+}
+
+const STATUS_LABELS: Record<ChangedFile['status'], string> = {
+    A: 'Added',
+    M: 'Modified',
+    D: 'Deleted',
+    R: 'Renamed',
+    C: 'Copied',
+    U: 'Unmerged',
+    '?': 'Untracked'
+};
+
+export class XmlPromptRenderer implements PromptRenderer {
+    render(document: PromptDocument): string {
+        let filesXmlContent = '';
+        for (const section of document.files) {
+            const { file, diff, content } = section;
+            filesXmlContent += `
+<file path="${this.escapeAttribute(file.path)}"${this.renameAttributes(file)} status="${file.status}"${this.noteAttributes(section)}>
+<diff>
+${this.escapeXml(diff)}
+</diff>
+${content !== undefined ? `<content_source_branch>\n${this.escapeXml(content)}\n</content_source_branch>` : ''}
+</file>
+`;
+        }
+
+        let contextXmlContent = '';
+        if (document.contextFiles.length > 0) {
+            contextXmlContent = '<supplementary_files>\n';
+            for (const section of document.contextFiles) {
+                const contentXml = section.content !== undefined ? `<content>\n${this.escapeXml(section.content)}\n</content>\n` : '';
+                contextXmlContent += `
+<file path="${this.escapeAttribute(section.path)}"${this.noteAttributes(section)}>
+${contentXml}</file>
+`;
+            }
+            contextXmlContent += '</supplementary_files>';
+        }
+
+        const repositoriesXml = document.repositories
+            .map(repo => this.generateBranches(repo) + this.generateCommitList(repo))
+            .join('');
+
+        let omittedXml = '';
+        if (document.omissions.length > 0) {
+            const items = document.omissions
+                .map(o => `        <item${o.path ? ` path="${this.escapeAttribute(o.path)}"` : ''}>${this.escapeXml(o.reason)}</item>`)
+                .join('\n');
+            omittedXml = `    <omitted>\n${items}\n    </omitted>\n`;
+        }
+
+        const partXml = document.part
+            ? `<part index="${document.part.index}" total="${document.part.total}">\n${describePart(document.part)}\n</part>\n\n`
+            : '';
+
+        return `
+${partXml}<instructions>
+${document.instruction}
+</instructions>
+
+<context>
+${repositoriesXml}    <directory_structure>
+${document.paths.slice().sort().map(p => `    ${this.escapeXml(p)}`).join('\n')}
+    </directory_structure>
+    ${contextXmlContent}
+${omittedXml}</context>
+
+<files>
+${filesXmlContent}
+</files>
+${document.outputContract ? `\n<output_format>\n${document.outputContract}\n</output_format>\n` : ''}`.trim();
+    }
+
+    private repositoryAttribute(repo: PromptRepositorySection): string {
+        return repo.name ? ` repository="${this.escapeAttribute(repo.name)}"` : '';
+    }
+
+    private generateBranches(repo: PromptRepositorySection): string {
+        return `    <branches${this.repositoryAttribute(repo)}>
+        <source>${this.escapeXml(describeRef(repo.sourceBranch))}</source>
+        <target>${this.escapeXml(describeRef(repo.targetBranch))}</target>
+${repo.mergeBase ? `        <merge_base>${repo.mergeBase}</merge_base>\n` : ''}    </branches>
+`;
+    }
+
+    private renameAttributes(file: ChangedFile): string {
+        if (!file.oldPath) {
+            return '';
+        }
+        const similarity = file.similarity !== undefined ? ` similarity="${file.similarity}"` : '';
+        return ` old_path="${this.escapeAttribute(file.oldPath)}"${similarity}`;
+    }
+
+    private noteAttributes(notes: FileNotes): string {
+        return (notes.role ? ` role="${notes.role}"` : '')
+            + (notes.mode ? ` mode="${notes.mode}"` : '')
+            + (notes.binary ? ' binary="true"' : '')
+            + (notes.truncated ? ' truncated="true"' : '')
+            + (notes.size !== undefined ? ` size="${notes.size}"` : '');
+    }
+
+    private generateCommitList(repo: PromptRepositorySection): string {
+        if (!repo.commits || repo.commits.length === 0) {
+            return '';
+        }
+        const items = repo.commits
+            .map(c => `        <commit sha="${c.sha}">${this.escapeXml(c.subject)}</commit>`)
+            .join('\n');
+        return `    <commits${this.repositoryAttribute(repo)}>\n${items}\n    </commits>\n`;
+    }
+
+    private escapeXml(unsafe: string): string {
+        return unsafe
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    }
+
+    // Внутри атрибутов дополнительно экранируем кавычки, иначе путь с " ломает разметку
+    private escapeAttribute(unsafe: string): string {
+        return this.escapeXml(unsafe)
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+}
+
+export class MarkdownPromptRenderer implements PromptRenderer {
+    render(document: PromptDocument): string {
+        const sections: string[] = [];
+
+        if (document.part) {
+            sections.push(`# Part ${document.part.index} of ${document.part.total}\n\n${describePart(document.part)}`);
+        }
+        sections.push(`# Instructions\n\n${document.instruction}`);
+
+        const context: string[] = ['# Context'];
+        for (const repo of document.repositories) {
+            context.push(this.renderBranches(repo));
+            if (repo.commits && repo.commits.length > 0) {
+                const suffix = repo.name ? ` (${this.code(repo.name)})` : '';
+                const items = repo.commits.map(c => `- ${this.code(c.shortSha)} ${this.escapeText(c.subject)}`);
+                context.push(`## Commits${suffix}\n\n${items.join('\n')}`);
+            }
+        }
+        context.push(`## Directory Structure\n\n${this.fence(document.paths.slice().sort().join('\n'), 'text')}`);
+
+        if (document.contextFiles.length > 0) {
+            context.push('## Supplementary Files');
+            for (const section of document.contextFiles) {
+                const notes = describeNotes(section);
+                const heading = `### ${this.code(section.path)}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+                context.push(section.content !== undefined
+                    ? `${heading}\n\n${this.fence(section.content, getLanguageId(section.path))}`
+                    : `${heading}\n\n_Content not included._`);
+            }
+        }
+
+        if (document.omissions.length > 0) {
+            const items = document.omissions.map(o => `- ${o.path ? `${this.code(o.path)}: ` : ''}${this.escapeText(o.reason)}`);
+            context.push(`## Omitted\n\n${items.join('\n')}`);
+        }
+        sections.push(context.join('\n\n'));
+
+        const files: string[] = ['# Files'];
+        for (const section of document.files) {
+            const { file, diff, content } = section;
+            files.push(`## ${this.code(file.path)} (${[this.describeStatus(file), ...describeNotes(section)].join(', ')})`);
+            files.push(`### Diff\n\n${this.fence(diff, 'diff')}`);
+            if (content !== undefined) {
+                files.push(`### Content (source branch)\n\n${this.fence(content, getLanguageId(file.path))}`);
+            }
+        }
+        sections.push(files.join('\n\n'));
+
+        if (document.outputContract) {
+            sections.push(`# Output Format\n\n${document.outputContract}`);
+        }
+
+        return sections.join('\n\n');
+    }
+
+    private renderBranches(repo: PromptRepositorySection): string {
+        const suffix = repo.name ? ` (${this.code(repo.name)})` : '';
+        const lines = [
+            `- Source: ${this.code(describeRef(repo.sourceBranch))}`,
+            `- Target: ${this.code(describeRef(repo.targetBranch))}`
+        ];
+        if (repo.mergeBase) {
+            lines.push(`- Merge base: ${this.code(repo.mergeBase)}`);
+        }
+        return `## Branches${suffix}\n\n${lines.join('\n')}`;
+    }
+
+    private describeStatus(file: ChangedFile): string {
+        const label = STATUS_LABELS[file.status] ?? file.status;
+        if (!file.oldPath) {
+            return label;
+        }
+        const similarity = file.similarity !== undefined ? `, ${file.similarity}%` : '';
+        return `${label} from ${this.code(file.oldPath)}${similarity}`;
+    }
+
+    /**
+     * Code fence длиннее любой последовательности backtick в тексте, чтобы содержимое
+     * (например, другой markdown) не закрыло блок раньше времени.
+     */
+    private fence(text: string, language?: string): string {
+        const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        return `${fence}${language ?? ''}\n${text}\n${fence}`;
+    }
+
+    // Inline code по тем же правилам: разделитель длиннее backtick внутри, пробелы у краев
+    private code(text: string): string {
+        const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+        if (longestRun === 0) {
+            return `\`${text}\``;
+        }
+        const delimiter = '`'.repeat(longestRun + 1);
+        return `${delimiter} ${text} ${delimiter}`;
+    }
+
+    private escapeText(text: string): string {
+        return text.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+    }
+}
+
+export class JsonPromptRenderer implements PromptRenderer {
+    render(document: PromptDocument): string {
+        // JSON.stringify сам экранирует кавычки, переводы строк и управляющие символы
+        return JSON.stringify({
+            part: document.part ? { ...document.part, note: describePart(document.part) } : undefined,
+            instructions: document.instruction,
+            branches: document.repositories.map(repo => ({
+                repository: repo.name,
+                source: describeRef(repo.sourceBranch),
+                target: describeRef(repo.targetBranch),
+                mergeBase: repo.mergeBase,
+                commits: repo.commits && repo.commits.length > 0
+                    ? repo.commits.map(c => ({ sha: c.sha, subject: c.subject }))
+                    : undefined
+            })),
+            directoryStructure: document.paths.slice().sort(),
+            supplementaryFiles: document.contextFiles.map(({ path, content, role, mode, binary, size, truncated }) => ({
+                path, role, mode, binary, size, truncated, content
+            })),
+            omitted: document.omissions.length > 0 ? document.omissions : undefined,
+            files: document.files.map(({ file, diff, content, role, binary, size, truncated }) => ({
+                path: file.path,
+                oldPath: file.oldPath,
+                similarity: file.similarity,
+                status: file.status,
+                role,
+                binary,
+                size,
+                truncated,
+                diff,
+                contentSourceBranch: content
+            })),
+            outputFormat: document.outputContract
+        }, null, 2);
+    }
+}
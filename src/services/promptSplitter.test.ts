@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { partitionFiles } from './promptSplitter';
+
+interface Item {
+    path: string;
+    tokens: number;
+}
+
+const paths = (parts: Item[][]) => parts.map(part => part.map(f => f.path));
+
+describe('partitionFiles', () => {
+    it('keeps everything in one part under the limit', () => {
+        const files = [{ path: 'b.ts', tokens: 10 }, { path: 'a.ts', tokens: 10 }];
+        assert.deepStrictEqual(paths(partitionFiles(files, f => f.tokens, { maxTokens: 100 })), [['a.ts', 'b.ts']]);
+    });
+
+    it('moves a whole directory to the next part instead of splitting it', () => {
+        const files = [
+            { path: 'api/a.ts', tokens: 40 },
+            { path: 'web/x.ts', tokens: 30 },
+            { path: 'web/y.ts', tokens: 30 }
+        ];
+        assert.deepStrictEqual(
+            paths(partitionFiles(files, f => f.tokens, { maxTokens: 80 })),
+            [['api/a.ts'], ['web/x.ts', 'web/y.ts']]
+        );
+    });
+
+    it('splits a directory only when it exceeds the limit on its own', () => {
+        const files = [
+            { path: 'src/a.ts', tokens: 50 },
+            { path: 'src/b.ts', tokens: 50 },
+            { path: 'src/c.ts', tokens: 50 }
+        ];
+        assert.deepStrictEqual(
+            paths(partitionFiles(files, f => f.tokens, { maxTokens: 100 })),
+            [['src/a.ts', 'src/b.ts'], ['src/c.ts']]
+        );
+    });
+
+    it('puts an oversized file in a part of its own', () => {
+        const files = [{ path: 'a/small.ts', tokens: 10 }, { path: 'b/huge.ts', tokens: 500 }, { path: 'c/small.ts', tokens: 10 }];
+        assert.deepStrictEqual(
+            paths(partitionFiles(files, f => f.tokens, { maxTokens: 100 })),
+            [['a/small.ts'], ['b/huge.ts'], ['c/small.ts']]
+        );
+    });
+
+    it('accounts for tokens reserved in the first part', () => {
+        const files = [{ path: 'a.ts', tokens: 60 }];
+        assert.deepStrictEqual(
+            paths(partitionFiles(files, f => f.tokens, { maxTokens: 100, firstPartReserved: 50 })),
+            [[], ['a.ts']]
+        );
+    });
+});
@@ -0,0 +1,52 @@
+import * as path from 'path';
+
+export interface PartitionOptions {
+    maxTokens: number; // Лимит на файлы одной части (без инструкции и структуры директорий)
+    firstPartReserved?: number; // Токены, занятые в первой части (например, дополнительными файлами)
+}
+
+/**
+ * Раскладывает файлы по частям, каждая не больше maxTokens. Файлы одной директории
+ * стараемся держать в одной части; директорию делим, только если она целиком больше лимита.
+ * Файл больше лимита попадает в отдельную часть — резать файл мы не умеем.
+ */
+export function partitionFiles<T extends { path: string }>(
+    files: T[],
+    tokensOf: (file: T) => number,
+    options: PartitionOptions
+): T[][] {
+    const groups = new Map<string, T[]>();
+    for (const file of files.slice().sort((a, b) => a.path.localeCompare(b.path))) {
+        const dir = path.posix.dirname(file.path.replace(/\\/g, '/'));
+        groups.set(dir, [...(groups.get(dir) ?? []), file]);
+    }
+
+    const reserved = options.firstPartReserved ?? 0;
+    const parts: T[][] = [[]];
+    let used = reserved;
+    const add = (file: T, tokens: number) => {
+        // Новую часть начинаем, только если в текущей уже что-то есть
+        if (used + tokens > options.maxTokens && used > 0) {
+            parts.push([]);
+            used = 0;
+        }
+        parts[parts.length - 1].push(file);
+        used += tokens;
+    };
+
+    for (const dir of Array.from(groups.keys()).sort()) {
+        const group = groups.get(dir)!;
+        const tokens = group.map(tokensOf);
+        const groupTokens = tokens.reduce((sum, t) => sum + t, 0);
+
+        if (groupTokens <= options.maxTokens) {
+            // Директория помещается в часть целиком: переносим ее в новую часть вместе
+            add(group[0], groupTokens);
+            parts[parts.length - 1].push(...group.slice(1));
+        } else {
+            group.forEach((file, i) => add(file, tokens[i]));
+        }
+    }
+
+    return parts.filter((part, index) => part.length > 0 || (index === 0 && reserved > 0));
+}
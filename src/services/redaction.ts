@@ -0,0 +1,138 @@
+/**
+ * Детектор секретов. Если в pattern есть группа (?<secret>...), заменяется только она
+ * (например, значение пароля без имени переменной), иначе все совпадение.
+ */
+export interface SecretDetector {
+    name: string;
+    pattern: RegExp; // С флагом g
+    accept?: (secret: string) => boolean; // Дополнительная проверка совпадения, чтобы отсечь ложные срабатывания
+}
+
+const HIGH_ENTROPY_THRESHOLD = 4.2; // Бит на символ; у hex (SHA коммитов) не больше 4
+
+export const BUILTIN_SECRET_DETECTORS: SecretDetector[] = [
+    {
+        name: 'Private key',
+        pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY-----/g
+    },
+    { name: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+    {
+        name: 'AWS secret access key',
+        pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+]{40})(?![A-Za-z0-9/+])/gi
+    },
+    { name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g },
+    { name: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+    { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+    { name: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+    // password = "...", apiKey: '...' — только строковые литералы, чтобы не трогать password: string в типах
+    {
+        name: 'Password assignment',
+        pattern: /\b[\w-]*(?:password|passwd|secret|api[_-]?key|token)["']?\s*[:=]\s*(["'`])(?<secret>[^"'`\s]{4,})\1/gi
+    },
+    // .env и .properties: KEY=value без пробелов вокруг =, в diff строка может начинаться с +, - или пробела
+    {
+        name: 'Password assignment',
+        pattern: /^[+\- ]?[ \t]*(?:export[ \t]+)?[\w.-]*(?:password|passwd|secret|api_?key|token)[\w.-]*=(?<secret>(?!\$)[^\s'"#]{4,})/gim
+    },
+    {
+        name: 'High-entropy string',
+        pattern: /[A-Za-z0-9+/_-]{32,}={0,2}/g,
+        accept: value => /\d/.test(value) && /[A-Za-z]/.test(value) && shannonEntropy(value) >= HIGH_ENTROPY_THRESHOLD
+    }
+];
+
+// Энтропия Шеннона в битах на символ
+export function shannonEntropy(value: string): number {
+    const counts = new Map<string, number>();
+    for (const char of value) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / value.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+/**
+ * Детекторы для промпта: встроенные (если включены) и пользовательские регулярные выражения
+ * из aiReview.secretPatterns (имя -> выражение). Некорректное выражение — ошибка, а не пропуск,
+ * чтобы промпт не ушел без проверки, которую пользователь считает включенной.
+ */
+export function createSecretDetectors(builtin: boolean, customPatterns: Record<string, string> = {}): SecretDetector[] {
+    const detectors = builtin ? [...BUILTIN_SECRET_DETECTORS] : [];
+    for (const [name, source] of Object.entries(customPatterns)) {
+        try {
+            detectors.push({ name, pattern: new RegExp(source, 'gm') });
+        } catch (e: any) {
+            throw new Error(`Invalid aiReview.secretPatterns entry "${name}": ${e.message}`);
+        }
+    }
+    return detectors;
+}
+
+export interface RedactionResult {
+    text: string;
+    detectors: string[]; // Имена сработавших детекторов
+}
+
+export function redactSecrets(text: string, detectors: SecretDetector[]): RedactionResult {
+    const found = new Set<string>();
+    let result = text;
+    for (const detector of detectors) {
+        result = result.replace(detector.pattern, (match: string, ...args: any[]) => {
+            const groups = args[args.length - 1];
+            const secret: string | undefined = typeof groups === 'object' ? groups?.secret : undefined;
+            if (!match || detector.accept && !detector.accept(secret ?? match)) {
+                return match;
+            }
+            found.add(detector.name);
+            const marker = `[REDACTED: ${detector.name}]`;
+            if (!secret) {
+                return marker;
+            }
+            // Группа secret в детекторах стоит последней, поэтому ищем ее с конца совпадения
+            const index = match.lastIndexOf(secret);
+            return match.slice(0, index) + marker + match.slice(index + secret.length);
+        });
+    }
+    return { text: result, detectors: Array.from(found) };
+}
+
+/**
+ * Что было скрыто при генерации промпта: файлы из deny-list и файлы с найденными секретами.
+ */
+export class RedactionReport {
+    public readonly blocked: string[] = [];
+    private redacted = new Map<string, Set<string>>();
+
+    public addBlocked(filePath: string): void {
+        if (!this.blocked.includes(filePath)) {
+            this.blocked.push(filePath);
+        }
+    }
+
+    public addRedacted(filePath: string, detectors: string[]): void {
+        if (detectors.length === 0) return;
+        const names = this.redacted.get(filePath) ?? new Set<string>();
+        detectors.forEach(name => names.add(name));
+        this.redacted.set(filePath, names);
+    }
+
+    public getRedacted(): Array<{ path: string; detectors: string[] }> {
+        return Array.from(this.redacted, ([path, names]) => ({ path, detectors: Array.from(names) }));
+    }
+
+    public isEmpty(): boolean {
+        return this.blocked.length === 0 && this.redacted.size === 0;
+    }
+
+    // По строке на файл: для диалога подтверждения и заголовка превью
+    public describe(): string[] {
+        return [
+            ...this.blocked.map(p => `Blocked: ${p}`),
+            ...this.getRedacted().map(r => `Redacted in ${r.path}: ${r.detectors.join(', ')}`)
+        ];
+    }
+}
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverRepositories } from './repositoryDiscovery';
+
+describe('discoverRepositories', () => {
+    let tmpDir: string;
+
+    // Для поиска достаточно папки .git, настоящий репозиторий не нужен
+    function makeRepo(relativePath: string, gitEntry: 'dir' | 'file' = 'dir') {
+        const root = path.join(tmpDir, relativePath);
+        fs.mkdirSync(root, { recursive: true });
+        if (gitEntry === 'dir') {
+            fs.mkdirSync(path.join(root, '.git'));
+        } else {
+            fs.writeFileSync(path.join(root, '.git'), 'gitdir: ../.git/modules/sub\n');
+        }
+        return root;
+    }
+
+    beforeEach(() => {
+        tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ai-review-discovery-')));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('finds the repository that contains a workspace folder', async () => {
+        const root = makeRepo('app');
+        const folder = path.join(root, 'packages', 'web');
+        fs.mkdirSync(folder, { recursive: true });
+
+        const repos = await discoverRepositories([folder]);
+
+        assert.deepStrictEqual(repos, [{ name: 'app', root }]);
+    });
+
+    it('finds nested repositories and submodules', async () => {
+        const root = makeRepo('mono');
+        const nested = makeRepo('mono/services/api');
+        const submodule = makeRepo('mono/vendor/lib', 'file');
+
+        const repos = await discoverRepositories([root]);
+
+        assert.deepStrictEqual(repos.map(r => r.root), [root, nested, submodule]);
+    });
+
+    it('skips ignored folders and respects the depth limit', async () => {
+        const root = makeRepo('mono');
+        makeRepo('mono/node_modules/pkg');
+        makeRepo('mono/a/b/c/deep');
+
+        const repos = await discoverRepositories([root], { maxDepth: 3, ignorePatterns: ['node_modules'] });
+
+        assert.deepStrictEqual(repos.map(r => r.root), [root]);
+    });
+
+    it('disambiguates repositories with the same folder name', async () => {
+        const first = makeRepo('one/shared');
+        const second = makeRepo('two/shared');
+
+        const repos = await discoverRepositories([first, second]);
+
+        assert.deepStrictEqual(repos.map(r => r.name), ['one/shared', 'two/shared']);
+    });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isMatch } from '../utils/glob';
+
+export interface DiscoveredRepository {
+    name: string;
+    root: string;
+}
+
+export interface DiscoveryOptions {
+    maxDepth?: number; // Насколько глубоко искать вложенные репозитории внутри папки workspace
+    ignorePatterns?: string[]; // Папки, в которые не заходим (node_modules и т.п.)
+}
+
+/**
+ * Находит git репозитории для папок workspace: репозиторий, внутри которого лежит
+ * сама папка, и вложенные репозитории (в том числе submodules) до maxDepth уровней вниз.
+ */
+export async function discoverRepositories(folders: string[], options: DiscoveryOptions = {}): Promise<DiscoveredRepository[]> {
+    const maxDepth = options.maxDepth ?? 3;
+    const ignorePatterns = options.ignorePatterns ?? [];
+    const roots = new Set<string>();
+
+    for (const folder of folders) {
+        const enclosing = await findEnclosingRepository(folder);
+        if (enclosing) {
+            roots.add(enclosing);
+        }
+        await scanForRepositories(folder, folder, maxDepth, ignorePatterns, roots);
+    }
+
+    return nameRepositories(Array.from(roots).sort());
+}
+
+async function hasGitEntry(dir: string): Promise<boolean> {
+    try {
+        // .git бывает папкой (обычный репозиторий) или файлом (submodule, worktree)
+        await fs.promises.stat(path.join(dir, '.git'));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function findEnclosingRepository(folder: string): Promise<string | undefined> {
+    let dir = path.resolve(folder);
+    while (true) {
+        if (await hasGitEntry(dir)) {
+            return dir;
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+async function scanForRepositories(
+    folder: string,
+    dir: string,
+    depth: number,
+    ignorePatterns: string[],
+    roots: Set<string>
+): Promise<void> {
+    if (depth <= 0) return;
+
+    let dirents: fs.Dirent[];
+    try {
+        dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+        return; // ignore access errors
+    }
+
+    for (const dirent of dirents) {
+        if (!dirent.isDirectory() || dirent.name === '.git') continue;
+
+        const fullPath = path.join(dir, dirent.name);
+        const relativePath = path.relative(folder, fullPath).replace(/\\/g, '/');
+        if (isMatch(relativePath, ignorePatterns)) continue;
+
+        if (await hasGitEntry(fullPath)) {
+            roots.add(path.resolve(fullPath));
+        }
+        await scanForRepositories(folder, fullPath, depth - 1, ignorePatterns, roots);
+    }
+}
+
+/**
+ * Имя репозитория — имя его папки. Если имена совпадают, добавляем родительскую папку.
+ */
+function nameRepositories(roots: string[]): DiscoveredRepository[] {
+    const counts = new Map<string, number>();
+    for (const root of roots) {
+        const name = path.basename(root);
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+
+    return roots.map(root => {
+        const name = path.basename(root);
+        return {
+            root,
+            name: counts.get(name)! > 1 ? `${path.basename(path.dirname(root))}/${name}` : name
+        };
+    });
+}
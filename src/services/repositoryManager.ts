@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitService } from './gitService';
+import { discoverRepositories } from './repositoryDiscovery';
+
+export interface Repository {
+    name: string;
+    root: string;
+    gitService: GitService;
+}
+
+export interface ActiveRepositoryChange {
+    previous?: Repository;
+    current: Repository;
+}
+
+/**
+ * Хранит git репозитории workspace (несколько папок, вложенные репозитории)
+ * и тот, с которым сейчас работают панели AI Review.
+ */
+export class RepositoryManager {
+    private _onDidChangeRepositories = new vscode.EventEmitter<void>();
+    readonly onDidChangeRepositories = this._onDidChangeRepositories.event;
+    private _onDidChangeActiveRepository = new vscode.EventEmitter<ActiveRepositoryChange>();
+    readonly onDidChangeActiveRepository = this._onDidChangeActiveRepository.event;
+
+    private repositories: Repository[] = [];
+    private active?: Repository;
+
+    public async discover(): Promise<void> {
+        const folders = (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
+        const config = vscode.workspace.getConfiguration('aiReview');
+        const ignorePatterns = Object.entries(config.get<Record<string, boolean>>('ignorePatterns') || {})
+            .filter(([_, isEnabled]) => isEnabled)
+            .map(([pattern]) => pattern);
+
+        let found = await discoverRepositories(folders, {
+            maxDepth: config.get<number>('repositoryScanDepth', 3),
+            ignorePatterns
+        });
+
+        // Без репозиториев оставляем первую папку, чтобы панели показали ошибки git, как раньше
+        if (found.length === 0 && folders.length > 0) {
+            found = [{ name: path.basename(folders[0]), root: folders[0] }];
+        }
+
+        // Сохраняем существующие объекты, чтобы не терять GitService уже открытых репозиториев
+        this.repositories = found.map(repo =>
+            this.getByRoot(repo.root) ?? { ...repo, gitService: new GitService(repo.root) }
+        );
+        this._onDidChangeRepositories.fire();
+
+        if (!this.active || !this.getByRoot(this.active.root)) {
+            const preferred = this.repositories.find(r => folders.includes(r.root)) ?? this.repositories[0];
+            if (preferred) {
+                this.setActive(preferred.root);
+            }
+        }
+    }
+
+    public getRepositories(): Repository[] {
+        return this.repositories;
+    }
+
+    public getActive(): Repository | undefined {
+        return this.active;
+    }
+
+    public getByRoot(root: string): Repository | undefined {
+        return this.repositories.find(r => r.root === root);
+    }
+
+    public setActive(root: string): void {
+        const repository = this.getByRoot(root);
+        if (!repository || repository === this.active) {
+            return;
+        }
+        const previous = this.active;
+        this.active = repository;
+        this._onDidChangeActiveRepository.fire({ previous, current: repository });
+    }
+}
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { ReviewOptionsState, isReviewOption } from './reviewOptions';
+
+describe('ReviewOptionsState', () => {
+    it('falls back to the setting for options the review did not change', () => {
+        const options = new ReviewOptionsState();
+
+        assert.strictEqual(options.get('promptFormat', 'xml'), 'xml');
+        assert.strictEqual(options.get('tokenBudget', 8000), 8000);
+        assert.deepStrictEqual(options.getValues(), {});
+    });
+
+    it('applies a format changed after a session is restored', () => {
+        const options = new ReviewOptionsState();
+        options.restore({ promptFormat: 'markdown', tokenBudget: 50000 });
+        assert.strictEqual(options.get('promptFormat', 'xml'), 'markdown');
+
+        options.set('promptFormat', 'json');
+
+        assert.strictEqual(options.get('promptFormat', 'xml'), 'json');
+        assert.deepStrictEqual(options.getValues(), { promptFormat: 'json', tokenBudget: 50000 });
+    });
+
+    it('restores only review options and forgets the previous session', () => {
+        const options = new ReviewOptionsState();
+        options.set('tokenBudget', 1000);
+
+        const session = { name: 'feature', instruction: 'Review changes.', promptFormat: 'json' as const };
+        options.restore(session);
+
+        assert.deepStrictEqual(options.getValues(), { promptFormat: 'json' });
+        assert.strictEqual(options.get('tokenBudget', 0), 0);
+    });
+
+    it('recognizes option keys', () => {
+        assert.ok(isReviewOption('promptFormat'));
+        assert.ok(isReviewOption('diffContextLines'));
+        assert.ok(!isReviewOption('findingsFormat'));
+    });
+});
@@ -0,0 +1,44 @@
+import { ReviewOptions } from '../types';
+
+export const REVIEW_OPTION_KEYS: ReadonlyArray<keyof ReviewOptions> = [
+    'promptFormat', 'tokenBudget', 'diffContextLines', 'diffFunctionContext', 'diffAlgorithm'
+];
+
+// Параметры, от которых зависит сам diff (и деление на hunks)
+export const DIFF_OPTION_KEYS: ReadonlyArray<keyof ReviewOptions> = ['diffContextLines', 'diffFunctionContext', 'diffAlgorithm'];
+
+export function isReviewOption(key: string): key is keyof ReviewOptions {
+    return (REVIEW_OPTION_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Параметры вывода и diff текущего ревью. Они хранятся в сессии, а не в настройках VS Code:
+ * настройки задают только значения по умолчанию для параметров, которые в ревью не меняли.
+ */
+export class ReviewOptionsState {
+    private values: ReviewOptions = {};
+
+    // Значение ревью или fallback (обычно значение настройки), если его не задавали
+    public get<K extends keyof ReviewOptions>(key: K, fallback: NonNullable<ReviewOptions[K]>): NonNullable<ReviewOptions[K]> {
+        return this.values[key] ?? fallback;
+    }
+
+    public set<K extends keyof ReviewOptions>(key: K, value: ReviewOptions[K]): void {
+        this.values = { ...this.values, [key]: value };
+    }
+
+    // Параметры из сессии; не сохраненные в ней снова берутся из настроек
+    public restore(options: ReviewOptions): void {
+        this.values = {};
+        for (const key of REVIEW_OPTION_KEYS) {
+            if (options[key] !== undefined) {
+                this.set(key, options[key]);
+            }
+        }
+    }
+
+    // Заданные в ревью параметры, для сохранения в сессию
+    public getValues(): ReviewOptions {
+        return { ...this.values };
+    }
+}
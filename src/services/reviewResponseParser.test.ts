@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { findingToComment, matchReviewPath, parseReviewResponse } from './reviewResponseParser';
+
+describe('review response parser', () => {
+    it('turns paragraphs and list items with path:line references into comments', () => {
+        const response = [
+            'Overall the change looks fine. A few issues:',
+            '',
+            '1. `src/auth/login.ts:42` — the token is logged in plain text.',
+            '2. src/auth/session.ts:10-14 and src/auth/session.ts#L30 duplicate the expiry check.',
+            '',
+            'Nothing else stands out.'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseReviewResponse(response), [
+            { path: 'src/auth/login.ts', line: 42, body: '`src/auth/login.ts:42` — the token is logged in plain text.' },
+            { path: 'src/auth/session.ts', line: 10, endLine: 14, body: 'src/auth/session.ts:10-14 and src/auth/session.ts#L30 duplicate the expiry check.' },
+            { path: 'src/auth/session.ts', line: 30, body: 'src/auth/session.ts:10-14 and src/auth/session.ts#L30 duplicate the expiry check.' }
+        ]);
+    });
+
+    it('keeps the text under a heading with a reference', () => {
+        const response = [
+            '### src/app.ts:7',
+            'The handler swallows errors.',
+            '',
+            '```ts',
+            'catch (e) { }',
+            '```',
+            '',
+            '### Summary',
+            'Good work.'
+        ].join('\n');
+
+        const [comment, ...rest] = parseReviewResponse(response);
+        assert.strictEqual(rest.length, 0);
+        assert.strictEqual(comment.line, 7);
+        assert.strictEqual(comment.body, '### src/app.ts:7\n\nThe handler swallows errors.\n\n```ts\ncatch (e) { }\n```');
+    });
+
+    it('attaches fenced blocks tagged with a file path', () => {
+        const response = [
+            'Use a constant here:',
+            '',
+            '```typescript:src/config.ts:3-4',
+            'const TIMEOUT_MS = 5000;',
+            '```',
+            '',
+            '```ts src/util.ts',
+            'export function retry() {',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseReviewResponse(response), [
+            { path: 'src/config.ts', line: 3, endLine: 4, body: 'Use a constant here:\n\n```typescript:src/config.ts:3-4\nconst TIMEOUT_MS = 5000;\n```' },
+            { path: 'src/util.ts', snippet: 'export function retry() {', body: '```ts src/util.ts\nexport function retry() {\n```' }
+        ]);
+    });
+
+    it('prefers the structured format when present', () => {
+        const response = [
+            'See src/ignored.ts:1 for context.',
+            '',
+            '```json',
+            '[',
+            '  { "path": "src/a.ts", "line": 5, "endLine": 6, "comment": "Off by one" },',
+            '  { "file": "src/b.ts", "message": "Missing test" },',
+            '  { "line": 3 }',
+            ']',
+            '```'
+        ].join('\n');
+
+        assert.deepStrictEqual(parseReviewResponse(response), [
+            { path: 'src/a.ts', line: 5, endLine: 6, body: 'Off by one' },
+            { path: 'src/b.ts', body: 'Missing test' }
+        ]);
+        assert.deepStrictEqual(parseReviewResponse('{"comments": [{"path": "x.py", "line": "2", "comment": "Typo"}]}'), [
+            { path: 'x.py', line: 2, body: 'Typo' }
+        ]);
+    });
+
+    it('returns nothing for a response without references', () => {
+        assert.deepStrictEqual(parseReviewResponse('Looks good to me.\n\nhttp://localhost:8080 is fine.'), []);
+    });
+
+    it('turns a finding into a comment with its severity and patch', () => {
+        const comment = findingToComment({
+            file: 'src/a.ts', startLine: 3, endLine: 4, severity: 'major', category: 'correctness', message: 'Off by one', suggestedPatch: '-a\n+b'
+        });
+        assert.deepStrictEqual(comment, {
+            path: 'src/a.ts',
+            line: 3,
+            endLine: 4,
+            body: '**major** · correctness\n\nOff by one\n\n```diff\n-a\n+b\n```'
+        });
+    });
+
+    it('matches paths written with prefixes or only their ending', () => {
+        const files = ['src/app.ts', 'src/auth/login.ts', 'test/auth/login.ts', 'README.md'];
+
+        assert.strictEqual(matchReviewPath('src/app.ts', files), 'src/app.ts');
+        assert.strictEqual(matchReviewPath('./src/app.ts', files), 'src/app.ts');
+        assert.strictEqual(matchReviewPath('b/src/app.ts', files), 'src/app.ts');
+        assert.strictEqual(matchReviewPath('web/src/app.ts', files), 'src/app.ts');
+        assert.strictEqual(matchReviewPath('app.ts', files), 'src/app.ts');
+        assert.strictEqual(matchReviewPath('login.ts', files), undefined);
+        assert.strictEqual(matchReviewPath('src/missing.ts', files), undefined);
+    });
+});
@@ -0,0 +1,223 @@
+import { ReviewFinding } from '../types';
+
+/**
+ * Замечание из ответа модели, привязанное к файлу. Путь — как его написала модель;
+ * к файлу репозитория его приводит matchReviewPath.
+ */
+export interface ReviewComment {
+    path: string;
+    line?: number; // С 1; не задан, если место нужно найти по snippet
+    endLine?: number;
+    body: string; // Markdown
+    snippet?: string; // Код из fenced блока без номера строки
+}
+
+// Путь с расширением и ссылка на строку: src/app.ts:42, src/app.ts:42-45, src/app.ts#L42-L45
+const PATH_SOURCE = String.raw`((?:[\w@.-]+\/)*[\w@-][\w@.-]*\.[A-Za-z0-9]+)`;
+const LINE_REFERENCE_PATTERN = new RegExp(`${PATH_SOURCE}(?::|#L)(\\d+)(?:-L?(\\d+))?`, 'g');
+// В info string fenced блока номер строки необязателен: ```ts src/app.ts, ```typescript:src/app.ts:10-20
+const FENCE_PATH_PATTERN = new RegExp(`${PATH_SOURCE}(?::(\\d+)(?:-(\\d+))?)?`);
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const HEADING_PATTERN = /^\s*#{1,6}\s/;
+
+interface Block {
+    text: string;
+    fence?: { info: string; code: string };
+}
+
+/**
+ * Разбирает ответ модели на замечания. Поддерживаются три вида ссылок:
+ * - структурированный формат: JSON массив (весь ответ или ```json блок) объектов
+ *   { "path": "src/app.ts", "line": 42, "endLine": 45, "comment": "..." };
+ * - ссылки path:line в тексте: замечанием становится абзац или пункт списка со ссылкой,
+ *   а у заголовка со ссылкой — и текст под ним до следующего заголовка;
+ * - fenced блоки, у которых в info string указан путь: ```ts src/app.ts:10-20.
+ * Если в ответе есть структурированный формат, остальные ссылки не разбираются.
+ */
+export function parseReviewResponse(text: string): ReviewComment[] {
+    const blocks = splitBlocks(text);
+
+    const structured = parseStructured(text.trim())
+        ?? blocks.flatMap(block => block.fence && /^(json|jsonc)?$/i.test(block.fence.info.trim())
+            ? parseStructured(block.fence.code) ?? []
+            : []);
+    if (structured.length > 0) {
+        return structured;
+    }
+
+    const comments: ReviewComment[] = [];
+    let heading: ReviewComment[] = []; // Замечания из последнего заголовка, к ним дописывается текст под ним
+    for (let i = 0; i < blocks.length; i++) {
+        const block = blocks[i];
+
+        if (block.fence) {
+            const match = FENCE_PATH_PATTERN.exec(block.fence.info);
+            if (match) {
+                // Пояснение обычно идет абзацем прямо перед блоком кода
+                const previous = blocks[i - 1];
+                const intro = previous && !previous.fence && !hasLineReference(previous.text) ? previous.text + '\n\n' : '';
+                comments.push({
+                    path: match[1],
+                    ...(match[2] ? lineRange(match[2], match[3]) : { snippet: block.fence.code }),
+                    body: intro + block.text
+                });
+                heading = [];
+            } else {
+                heading.forEach(comment => comment.body += '\n\n' + block.text);
+            }
+            continue;
+        }
+
+        const references = Array.from(block.text.matchAll(LINE_REFERENCE_PATTERN));
+        if (references.length === 0) {
+            if (HEADING_PATTERN.test(block.text)) {
+                heading = [];
+            }
+            heading.forEach(comment => comment.body += '\n\n' + block.text);
+            continue;
+        }
+
+        const body = block.text.replace(LIST_ITEM_PATTERN, '');
+        const added = uniqueReferences(references).map(([, path, start, end]) => ({ path, ...lineRange(start, end), body }));
+        comments.push(...added);
+        heading = HEADING_PATTERN.test(block.text) ? added : [];
+    }
+    return comments;
+}
+
+// Замечание по схеме findings (см. findings.ts): уровень и категория идут в начало текста
+export function findingToComment(finding: ReviewFinding): ReviewComment {
+    const patch = finding.suggestedPatch ? `\n\n\`\`\`diff\n${finding.suggestedPatch}\n\`\`\`` : '';
+    return {
+        path: finding.file,
+        line: finding.startLine,
+        ...(finding.endLine !== undefined ? { endLine: finding.endLine } : {}),
+        body: `**${finding.severity}** · ${finding.category}\n\n${finding.message}${patch}`
+    };
+}
+
+/**
+ * Файл из files (пути относительно корня, через /), на который ссылается замечание.
+ * Модели пишут пути по-разному: с ./ или a/ b/ из diff, с именем репозитория впереди
+ * или только окончание пути — поэтому при отсутствии точного совпадения ищется
+ * единственный файл с таким окончанием.
+ */
+export function matchReviewPath(reference: string, files: Iterable<string>): string | undefined {
+    const candidates = Array.from(files);
+    const references = getReviewPathCandidates(reference);
+    const exact = references.find(p => candidates.includes(p));
+    if (exact) {
+        return exact;
+    }
+    const suffix = candidates.filter(file => references[0].endsWith('/' + file) || file.endsWith('/' + references[0]));
+    return suffix.length === 1 ? suffix[0] : undefined;
+}
+
+// Относительные пути, которые могла иметь в виду модель: как написано и без a/ b/ из diff
+export function getReviewPathCandidates(reference: string): string[] {
+    const normalized = reference.replace(/\\/g, '/').replace(/^(?:\.\/|\/)+/, '');
+    const withoutDiffPrefix = normalized.replace(/^[ab]\//, '');
+    return withoutDiffPrefix === normalized ? [normalized] : [normalized, withoutDiffPrefix];
+}
+
+function hasLineReference(text: string): boolean {
+    return new RegExp(LINE_REFERENCE_PATTERN.source).test(text);
+}
+
+function lineRange(start: string, end?: string): { line: number; endLine?: number } {
+    const line = Number(start);
+    const endLine = end ? Number(end) : undefined;
+    return endLine && endLine > line ? { line, endLine } : { line };
+}
+
+// Одна и та же ссылка в абзаце дважды — одно замечание
+function uniqueReferences(references: RegExpMatchArray[]): RegExpMatchArray[] {
+    const seen = new Set<string>();
+    return references.filter(match => {
+        const key = `${match[1]}:${match[2]}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+// Абзацы, пункты списков и fenced блоки целиком; заголовок — отдельный блок
+function splitBlocks(text: string): Block[] {
+    const blocks: Block[] = [];
+    const lines = text.split(/\r?\n/);
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ text: paragraph.join('\n').trim() });
+            paragraph = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const fence = FENCE_PATTERN.exec(line);
+        if (fence) {
+            flush();
+            const marker = fence[2];
+            const code: string[] = [];
+            let end = i + 1;
+            while (end < lines.length && !lines[end].trim().startsWith(marker)) {
+                code.push(lines[end]);
+                end++;
+            }
+            blocks.push({
+                text: lines.slice(i, Math.min(end + 1, lines.length)).join('\n'),
+                fence: { info: fence[3].trim(), code: code.join('\n') }
+            });
+            i = end;
+            continue;
+        }
+        if (!line.trim()) {
+            flush();
+            continue;
+        }
+        if (HEADING_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line)) {
+            flush();
+        }
+        paragraph.push(line);
+        if (HEADING_PATTERN.test(line)) {
+            flush();
+        }
+    }
+    flush();
+    return blocks;
+}
+
+// Разные модели называют поля по-разному, поэтому принимаются и file/message
+function parseStructured(text: string): ReviewComment[] | undefined {
+    if (!/^[[{]/.test(text)) {
+        return undefined;
+    }
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+    const items: any[] | undefined = Array.isArray(data) ? data : data?.comments;
+    if (!Array.isArray(items)) {
+        return undefined;
+    }
+    const comments: ReviewComment[] = [];
+    for (const item of items) {
+        const path = item?.path ?? item?.file;
+        const body = item?.comment ?? item?.message;
+        if (typeof path !== 'string' || typeof body !== 'string') {
+            continue;
+        }
+        const line = Number(item.line);
+        comments.push({
+            path,
+            ...(line > 0 ? lineRange(String(line), item.endLine !== undefined ? String(item.endLine) : undefined) : {}),
+            body
+        });
+    }
+    return comments;
+}
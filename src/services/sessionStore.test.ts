@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { DEFAULT_SESSION_NAME, SessionStorage, SessionStore } from './sessionStore';
+import { ReviewSession } from '../types';
+
+class MemoryStorage implements SessionStorage {
+    private values = new Map<string, unknown>();
+
+    get<T>(key: string): T | undefined {
+        // Как и workspaceState, отдаем копию, а не сохраненный объект
+        const value = this.values.get(key);
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        this.values.set(key, value);
+    }
+}
+
+function session(name: string, instruction = 'Review changes.'): Omit<ReviewSession, 'updatedAt'> {
+    return {
+        name,
+        activeRepository: '/repo',
+        repositories: {
+            '/repo': {
+                changes: {
+                    targetBranch: 'main',
+                    sourceBranch: name,
+                    commits: [],
+                    changedFiles: [{ path: 'src/a.ts', status: 'M' }, { path: 'src/b.ts', status: 'A' }],
+                    checkedPaths: ['src/a.ts']
+                },
+                contextFiles: ['README.md']
+            }
+        },
+        instruction,
+        promptFormat: 'markdown'
+    };
+}
+
+describe('SessionStore', () => {
+    it('saves and restores a session through the storage', async () => {
+        const storage = new MemoryStorage();
+        await new SessionStore(storage).save(session('feature/login'));
+
+        const restored = new SessionStore(storage).get('feature/login');
+        assert.ok(restored);
+        assert.deepStrictEqual(restored.repositories['/repo'].changes.checkedPaths, ['src/a.ts']);
+        assert.deepStrictEqual(restored.repositories['/repo'].contextFiles, ['README.md']);
+        assert.strictEqual(restored.promptFormat, 'markdown');
+        assert.strictEqual(typeof restored.updatedAt, 'number');
+    });
+
+    it('overwrites a session with the same name', async () => {
+        const store = new SessionStore(new MemoryStorage());
+        await store.save(session('feature/login', 'First'));
+        await store.save(session('feature/search'));
+        await store.save(session('feature/login', 'Second'));
+
+        assert.strictEqual(store.list().length, 2);
+        assert.strictEqual(store.get('feature/login')?.instruction, 'Second');
+        assert.strictEqual(store.list()[0].name, 'feature/login');
+    });
+
+    it('tracks the active session and falls back to the default one after deletion', async () => {
+        const store = new SessionStore(new MemoryStorage());
+        assert.strictEqual(store.getActiveName(), DEFAULT_SESSION_NAME);
+
+        await store.save(session('feature/login'));
+        await store.setActive('feature/login');
+        assert.strictEqual(store.getActiveName(), 'feature/login');
+
+        assert.strictEqual(await store.delete('feature/search'), false);
+        assert.strictEqual(await store.delete('feature/login'), true);
+        assert.strictEqual(store.get('feature/login'), undefined);
+        assert.strictEqual(store.getActiveName(), DEFAULT_SESSION_NAME);
+    });
+});
@@ -0,0 +1,76 @@
+import { ReviewSession } from '../types';
+
+export const DEFAULT_SESSION_NAME = 'Default';
+
+const STORAGE_KEY = 'aiReview.sessions';
+
+/**
+ * Хранилище ключ-значение; vscode.Memento (workspaceState) подходит как есть.
+ */
+export interface SessionStorage {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+interface StoredSessions {
+    active?: string;
+    sessions: ReviewSession[];
+}
+
+/**
+ * Именованные сессии ревью workspace. Активная сессия сохраняется автоматически
+ * и восстанавливается при следующем запуске.
+ */
+export class SessionStore {
+    constructor(private readonly storage: SessionStorage) { }
+
+    // Сначала недавно измененные
+    public list(): ReviewSession[] {
+        return this.read().sessions.slice().sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public get(name: string): ReviewSession | undefined {
+        return this.read().sessions.find(s => s.name === name);
+    }
+
+    public getActiveName(): string {
+        return this.read().active ?? DEFAULT_SESSION_NAME;
+    }
+
+    public async setActive(name: string): Promise<void> {
+        await this.write({ ...this.read(), active: name });
+    }
+
+    // Сессия с тем же именем перезаписывается
+    public async save(session: Omit<ReviewSession, 'updatedAt'>): Promise<ReviewSession> {
+        const saved: ReviewSession = { ...session, updatedAt: Date.now() };
+        const stored = this.read();
+        await this.write({
+            ...stored,
+            sessions: [saved, ...stored.sessions.filter(s => s.name !== session.name)]
+        });
+        return saved;
+    }
+
+    /**
+     * Удаляет сессию. Если она была активной, активной становится сессия по умолчанию.
+     */
+    public async delete(name: string): Promise<boolean> {
+        const stored = this.read();
+        const sessions = stored.sessions.filter(s => s.name !== name);
+        if (sessions.length === stored.sessions.length) {
+            return false;
+        }
+        await this.write({ active: stored.active === name ? undefined : stored.active, sessions });
+        return true;
+    }
+
+    private read(): StoredSessions {
+        const stored = this.storage.get<StoredSessions>(STORAGE_KEY);
+        return { active: stored?.active, sessions: stored?.sessions ?? [] };
+    }
+
+    private async write(stored: StoredSessions): Promise<void> {
+        await this.storage.update(STORAGE_KEY, stored);
+    }
+}
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { getCounterpartCandidates, isTestFile, pairTestFiles } from './testPairing';
+import { TestPairingRule } from '../types';
+
+describe('test pairing', () => {
+    it('recognises test files by the default rules', () => {
+        assert.strictEqual(isTestFile('src/foo.test.ts'), true);
+        assert.strictEqual(isTestFile('src/foo.spec.jsx'), true);
+        assert.strictEqual(isTestFile('src/__tests__/foo.ts'), true);
+        assert.strictEqual(isTestFile('pkg/test_foo.py'), true);
+        assert.strictEqual(isTestFile('src/foo.ts'), false);
+        assert.strictEqual(isTestFile('README.md'), false);
+    });
+
+    it('maps sources to tests and back', () => {
+        assert.deepStrictEqual(getCounterpartCandidates('src/foo.ts'), [
+            'src/foo.test.ts', 'src/foo.spec.ts', 'src/__tests__/foo.ts', 'src/__tests__/foo.test.ts'
+        ]);
+        assert.deepStrictEqual(getCounterpartCandidates('src/foo.test.ts'), ['src/foo.ts']);
+        assert.deepStrictEqual(getCounterpartCandidates('src/__tests__/foo.test.ts'), ['src/foo.ts']);
+        assert.deepStrictEqual(getCounterpartCandidates('foo.js'), ['foo.test.js', 'foo.spec.js', '__tests__/foo.js', '__tests__/foo.test.js']);
+        assert.deepStrictEqual(getCounterpartCandidates('pkg/foo.py'), ['pkg/test_foo.py', 'tests/test_foo.py']);
+        // Из tests/test_foo.py не понять, в какой папке исходник
+        assert.deepStrictEqual(getCounterpartCandidates('tests/test_foo.py'), ['tests/foo.py']);
+        assert.deepStrictEqual(getCounterpartCandidates('README.md'), []);
+    });
+
+    it('supports custom rules', () => {
+        const rules: TestPairingRule[] = [{ source: 'src/{dir}/{name}.go', test: 'src/{dir}/{name}_test.go' }];
+
+        assert.deepStrictEqual(getCounterpartCandidates('src/api/server.go', rules), ['src/api/server_test.go']);
+        assert.deepStrictEqual(getCounterpartCandidates('src/api/server_test.go', rules), ['src/api/server.go']);
+    });
+
+    it('finds existing counterparts and untested sources', async () => {
+        const existing = new Set(['src/a.test.ts', 'src/c.ts']);
+        const pairing = await pairTestFiles(
+            ['src/a.ts', 'src/b.ts', 'src/c.spec.ts', 'src/d.ts', 'src/d.test.ts', 'docs/readme.md'],
+            filePath => existing.has(filePath)
+        );
+
+        assert.deepStrictEqual(Object.fromEntries(pairing.counterparts), {
+            'src/a.ts': ['src/a.test.ts'],
+            'src/c.spec.ts': ['src/c.ts'],
+            'src/d.ts': ['src/d.test.ts'],
+            'src/d.test.ts': ['src/d.ts']
+        });
+        assert.deepStrictEqual(pairing.untested, ['src/b.ts']);
+    });
+});
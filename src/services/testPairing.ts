@@ -0,0 +1,125 @@
+import { TestPairingRule } from '../types';
+
+const SCRIPT_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx', 'mts', 'cts', 'mjs', 'cjs'];
+
+export const DEFAULT_TEST_PAIRING_RULES: TestPairingRule[] = [
+    { source: '{dir}/{name}.{ext}', test: '{dir}/{name}.test.{ext}', extensions: SCRIPT_EXTENSIONS },
+    { source: '{dir}/{name}.{ext}', test: '{dir}/{name}.spec.{ext}', extensions: SCRIPT_EXTENSIONS },
+    { source: '{dir}/{name}.{ext}', test: '{dir}/__tests__/{name}.{ext}', extensions: SCRIPT_EXTENSIONS },
+    { source: '{dir}/{name}.{ext}', test: '{dir}/__tests__/{name}.test.{ext}', extensions: SCRIPT_EXTENSIONS },
+    { source: '{dir}/{name}.py', test: '{dir}/test_{name}.py' },
+    { source: '{dir}/{name}.py', test: 'tests/test_{name}.py' }
+];
+
+export interface TestPairing {
+    counterparts: Map<string, string[]>; // Измененный файл -> существующие парные файлы
+    untested: string[]; // Исходники, для которых не нашлось ни одного теста
+}
+
+type Variables = Partial<Record<'dir' | 'name' | 'ext', string>>;
+
+const PLACEHOLDER_PATTERN = /(\{dir\}\/|\{name\}|\{ext\})/;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// undefined для шаблона, из которого не получается регулярное выражение (например, {name} дважды)
+function compileTemplate(template: string, extensions?: string[]): RegExp | undefined {
+    const pattern = template.split(PLACEHOLDER_PATTERN).map(part => {
+        switch (part) {
+            case '{dir}/': return '(?:(?<dir>.+)/)?';
+            case '{name}': return '(?<name>[^/]+?)';
+            case '{ext}': return `(?<ext>${extensions ? extensions.map(escapeRegExp).join('|') : '[^/.]+'})`;
+            default: return escapeRegExp(part);
+        }
+    }).join('');
+    try {
+        return new RegExp(`^${pattern}$`);
+    } catch {
+        return undefined;
+    }
+}
+
+function matchTemplate(filePath: string, template: string, extensions?: string[]): Variables | undefined {
+    const match = compileTemplate(template, extensions)?.exec(filePath);
+    if (!match) {
+        return undefined;
+    }
+    // {dir} известна, даже если файл лежит в корне и группа ничего не захватила
+    return { ...(template.includes('{dir}/') ? { dir: '' } : {}), ...removeUndefined(match.groups ?? {}) };
+}
+
+function removeUndefined(groups: Record<string, string | undefined>): Variables {
+    return Object.fromEntries(Object.entries(groups).filter(([, value]) => value !== undefined));
+}
+
+// undefined, если в шаблоне есть переменная, которую не из чего взять
+function fillTemplate(template: string, variables: Variables): string | undefined {
+    let missing = false;
+    const filled = template.split(PLACEHOLDER_PATTERN).map(part => {
+        if (part === '{dir}/') {
+            if (variables.dir === undefined) missing = true;
+            return variables.dir ? `${variables.dir}/` : '';
+        }
+        if (part === '{name}' || part === '{ext}') {
+            const value = variables[part === '{name}' ? 'name' : 'ext'];
+            if (value === undefined) missing = true;
+            return value ?? '';
+        }
+        return part;
+    }).join('');
+    return missing ? undefined : filled;
+}
+
+export function isTestFile(filePath: string, rules: TestPairingRule[] = DEFAULT_TEST_PAIRING_RULES): boolean {
+    return rules.some(rule => matchTemplate(filePath, rule.test, rule.extensions) !== undefined);
+}
+
+/**
+ * Возможные пути парных файлов: для теста — его исходники, для исходника — тесты.
+ * Существуют ли эти файлы, не проверяется.
+ */
+export function getCounterpartCandidates(filePath: string, rules: TestPairingRule[] = DEFAULT_TEST_PAIRING_RULES): string[] {
+    const isTest = isTestFile(filePath, rules);
+    const candidates = new Set<string>();
+    for (const rule of rules) {
+        const [from, to] = isTest ? [rule.test, rule.source] : [rule.source, rule.test];
+        const variables = matchTemplate(filePath, from, rule.extensions);
+        const candidate = variables && fillTemplate(to, variables);
+        // Тест парный только исходнику: src/__tests__/foo.test.ts не указывает на src/foo.test.ts
+        if (candidate && candidate !== filePath && isTestFile(candidate, rules) !== isTest) {
+            candidates.add(candidate);
+        }
+    }
+    return Array.from(candidates);
+}
+
+/**
+ * Находит существующие парные файлы для измененных. Парный файл, который сам изменен, тоже считается.
+ */
+export async function pairTestFiles(
+    changedPaths: string[],
+    exists: (filePath: string) => boolean | Promise<boolean>,
+    rules: TestPairingRule[] = DEFAULT_TEST_PAIRING_RULES
+): Promise<TestPairing> {
+    const changed = new Set(changedPaths);
+    const counterparts = new Map<string, string[]>();
+    const untested: string[] = [];
+
+    for (const filePath of changedPaths) {
+        const candidates = getCounterpartCandidates(filePath, rules);
+        const found: string[] = [];
+        for (const candidate of candidates) {
+            if (changed.has(candidate) || await exists(candidate)) {
+                found.push(candidate);
+            }
+        }
+        if (found.length > 0) {
+            counterparts.set(filePath, found);
+        } else if (candidates.length > 0 && !isTestFile(filePath, rules)) {
+            untested.push(filePath);
+        }
+    }
+    return { counterparts, untested };
+}
@@ -1,16 +1,245 @@
 export interface ChangedFile {
     path: string;
-    status: 'A' | 'M' | 'D' | 'R' | 'U' | '?'; // Git status codes
+    status: 'A' | 'M' | 'D' | 'R' | 'C' | 'U' | '?'; // Git status codes
+    oldPath?: string; // Исходный путь для переименований (R) и копий (C)
+    similarity?: number; // Процент сходства с oldPath, который посчитал git
+}
+
+export type RenameDetection = 'off' | 'renames' | 'copies';
+
+export interface DiffOptions {
+    renameDetection?: RenameDetection; // По умолчанию 'renames'
+    renameThreshold?: number; // Минимальное сходство в процентах (у git по умолчанию 50)
+    contextLines?: number; // Строк контекста вокруг изменений (git diff -U, по умолчанию 3)
+    functionContext?: boolean; // git diff --function-context: вся функция вокруг изменения
+    algorithm?: DiffAlgorithm;
+}
+
+// Алгоритм git diff; 'default' — не передаем --diff-algorithm (обычно myers или diff.algorithm из git config)
+export type DiffAlgorithm = 'default' | 'myers' | 'minimal' | 'patience' | 'histogram';
+
+// merge-base: сравнение с общим предком (target...source), direct: с вершиной target (target..source)
+export type ComparisonMode = 'merge-base' | 'direct';
+
+export interface CommitInfo {
+    sha: string;
+    shortSha: string;
+    subject: string;
+}
+
+export interface CommitRange {
+    spec: string; // Как ввел пользователь: SHA, A..B, A...B или HEAD~N
+    base: string; // SHA левой стороны diff
+    head: string; // SHA правой стороны diff
+}
+
+export interface GitRefs {
+    local: string[];
+    remote: string[];
+    tags: string[];
+}
+
+/**
+ * Состояние панели Changed Files для одного репозитория.
+ */
+export interface ChangesSnapshot {
+    targetBranch?: string;
+    sourceBranch?: string;
+    mergeBase?: string;
+    commitRange?: CommitRange;
+    commits: CommitInfo[];
+    changedFiles: ChangedFile[];
+    checkedPaths: string[];
+    selectedHunks?: Record<string, number[]>;
+    // Заголовки всех hunks файлов из selectedHunks: по ним при восстановлении видно, что diff не изменился
+    hunkHeaders?: Record<string, string[]>;
+}
+
+// Выбор в репозитории: Changed Files и отмеченные файлы Project Context
+export interface RepositorySnapshot {
+    changes: ChangesSnapshot;
+    contextFiles: string[];
+    outlineFiles?: string[]; // Файлы Project Context, включаемые только outline
+}
+
+// Параметры вывода и diff, выбранные для ревью; не заданные берутся из настроек aiReview.*
+export interface ReviewOptions {
+    promptFormat?: PromptFormat;
+    tokenBudget?: number;
+    diffContextLines?: number;
+    diffFunctionContext?: boolean;
+    diffAlgorithm?: DiffAlgorithm;
+}
+
+/**
+ * Сохраненная сессия ревью: выбор по всем репозиториям, инструкция и формат вывода.
+ */
+export interface ReviewSession extends ReviewOptions {
+    name: string;
+    activeRepository?: string; // root репозитория, открытого в панелях
+    repositories: Record<string, RepositorySnapshot>; // По root репозитория
+    instruction: string;
+    updatedAt: number;
+}
+
+// Ветки репозитория в записи истории промптов и SHA, в которые они разрешались при генерации
+export interface PromptHistoryRepository {
+    name?: string; // Задано только в промпте по нескольким репозиториям
+    sourceBranch: string;
+    targetBranch: string;
+    sourceSha?: string; // Не задан для рабочего дерева и index
+    targetSha?: string;
+    mergeBase?: string;
+}
+
+/**
+ * Скопированный или экспортированный промпт. Текст хранится отдельным файлом,
+ * в workspaceState — только метаданные.
+ */
+export interface PromptHistoryEntry {
+    id: string;
+    createdAt: number;
+    format: PromptFormat;
+    instruction: string;
+    tokens: number;
+    repositories: PromptHistoryRepository[];
+    files: string[]; // Измененные файлы в промпте
+    contextFiles: string[];
+    part?: PromptPart;
 }
 
 export interface GitConfig {
     workspaceRoot: string;
 }
 
+export type PromptFormat = 'xml' | 'markdown' | 'json';
+
+// Откуда Project Context берет файлы: вся файловая система или git ls-files (с учетом .gitignore)
+export type ProjectContextSource = 'filesystem' | 'gitTracked' | 'gitTrackedAndUntracked';
+
+// Токенизатор для подсчета токенов: словарь BPE целевой модели или грубая оценка 4 символа = 1 токен
+export type TokenizerModel = 'gpt-4o' | 'gpt-4' | 'approximate';
+
 export interface PromptConfig {
     sourceBranch: string;
     targetBranch: string;
+    mergeBase?: string; // SHA общего предка; если задан, diff строится от него, а не от targetBranch
+    commits?: CommitInfo[]; // Коммиты, если ревьюим коммит или диапазон коммитов
     instruction: string; // Пользовательский промпт
     files: ChangedFile[]; // Отфильтрованный список файлов для ревью (diffs)
+    diffOptions?: DiffOptions;
     contextFiles?: string[]; // Список дополнительных файлов (только контент)
+    outlineFiles?: string[]; // Дополнительные файлы, от которых в промпт идут только объявления (outline)
+    format?: PromptFormat; // По умолчанию xml
+    part?: PromptPart; // Задано, если ревью разбито на несколько промптов
+    structurePaths?: string[]; // Пути для directory_structure; по умолчанию files и contextFiles этого промпта
+    selectedHunks?: Record<string, number[]>; // Файлы, из diff которых выбраны не все hunks: путь -> индексы hunks
+    omitPartialContent?: boolean; // Не добавлять content_source_branch файлам, у которых выбраны не все hunks
+    testPairingRules?: TestPairingRule[]; // Если заданы, тесты помечаются в промпте role="test"
+    contentLimits?: ContentLimits; // Большие файлы обрезаются или идут только diff; без лимитов отсекаются только бинарные
+    redaction?: RedactionOptions; // Без опций секреты не ищутся и deny-list не применяется
+    findingsFormat?: FindingsFormat; // Если задан, в конце промпта — контракт ответа со схемой замечаний
+}
+
+/**
+ * Правило пары исходник <-> тест. В шаблонах путей (относительно корня, через /) доступны:
+ * {dir} — папка файла (может быть пустой), {name} — имя без расширения, {ext} — расширение без точки.
+ * extensions ограничивает {ext}, иначе подходит любое расширение.
+ */
+export interface TestPairingRule {
+    source: string;
+    test: string;
+    extensions?: string[];
+}
+
+// Защита от утечек: секреты в тексте заменяются маркерами, файлы из deny-list в промпт не попадают
+export interface RedactionOptions {
+    detectSecrets: boolean; // Встроенные детекторы: приватные ключи, токены, пароли, строки с высокой энтропией
+    secretPatterns?: Record<string, string>; // Пользовательские регулярные выражения: имя -> выражение
+    denyPatterns: string[]; // Glob файлов, которые нельзя включать ни в каком виде
+}
+
+export interface ContentLimits {
+    maxBytes: number; // Файлы больше считаются большими
+    keepLines: number; // Сколько строк обрезанного файла оставить в начале и столько же в конце
+}
+
+// Зачем файл попал в промпт, если это не очевидно из раздела (сейчас только тесты к изменениям)
+export type PromptFileRole = 'test';
+
+// Как включено содержимое дополнительного файла: outline — только объявления, тела функций опущены
+export type PromptContextFileMode = 'outline';
+
+// В каком виде модель должна вернуть замечания (output contract в конце промпта)
+export type FindingsFormat = 'json' | 'xml';
+
+export type FindingSeverity = 'critical' | 'major' | 'minor' | 'info';
+
+// Замечание из ответа модели по схеме findings: то, что можно передать другим инструментам
+export interface ReviewFinding {
+    file: string; // Путь как в промпте
+    startLine: number; // С 1, по версии файла в source ветке
+    endLine?: number;
+    severity: FindingSeverity;
+    category: string; // correctness, security, performance и т.д.
+    message: string;
+    suggestedPatch?: string; // Unified diff с исправлением
+}
+
+// Номер промпта при разбиении большого ревью на части (index с 1)
+export interface PromptPart {
+    index: number;
+    total: number;
+}
+
+// Лимит размера промпта для подгонки под контекстное окно модели
+export interface TokenBudget {
+    maxTokens: number;
+    model?: TokenizerModel; // Каким токенизатором считать; по умолчанию как в деревьях
+}
+
+// Что не попало в промпт (не выбранные hunks, подгонка под бюджет), чтобы модель-ревьюер знала о пробелах
+export interface PromptOmission {
+    path?: string; // Не задан, если изменение касается всех файлов (например, контекст diff)
+    reason: string;
+}
+
+// Промежуточная модель промпта: PromptGenerator собирает ее из git, рендерер превращает в текст
+export interface PromptDocument {
+    instruction: string;
+    repositories: PromptRepositorySection[];
+    paths: string[]; // Структура директорий
+    files: PromptFileSection[];
+    contextFiles: PromptContextFileSection[];
+    omissions: PromptOmission[];
+    part?: PromptPart;
+    outputContract?: string; // Требования к формату ответа; рендереры выводят их в конце промпта
+}
+
+export interface PromptRepositorySection {
+    name?: string; // Задано только в промпте по нескольким репозиториям
+    sourceBranch: string;
+    targetBranch: string;
+    mergeBase?: string;
+    commits?: CommitInfo[];
+}
+
+export interface PromptFileSection {
+    file: ChangedFile; // path и oldPath уже с префиксом репозитория
+    diff: string;
+    content?: string; // undefined для удаленных, бинарных и слишком больших файлов
+    role?: PromptFileRole;
+    binary?: boolean;
+    size?: number; // Размер в байтах, если содержимое не включено или обрезано
+    truncated?: boolean; // diff обрезан до начала и конца
+}
+
+export interface PromptContextFileSection {
+    path: string;
+    content?: string; // undefined для бинарных и сгенерированных файлов
+    role?: PromptFileRole;
+    mode?: PromptContextFileMode;
+    binary?: boolean;
+    size?: number;
+    truncated?: boolean; // Оставлены только начало и конец файла
 }
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { parseDiff, previewHunk, selectHunks } from './diffHunks';
+
+const DIFF = [
+    'diff --git a/app.ts b/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/app.ts',
+    '+++ b/app.ts',
+    '@@ -1,3 +1,3 @@',
+    ' const a = 1;',
+    '-const b = 2;',
+    '+const b = 3;',
+    '@@ -40,2 +40,3 @@ function run() {',
+    '     step();',
+    '+    ',
+    '+    finish();'
+].join('\n');
+
+describe('diff hunks', () => {
+    it('splits a diff into header and hunks', () => {
+        const parsed = parseDiff(DIFF);
+
+        assert.strictEqual(parsed.header.length, 4);
+        assert.deepStrictEqual(parsed.hunks.map(h => h.header), ['@@ -1,3 +1,3 @@', '@@ -40,2 +40,3 @@ function run() {']);
+        assert.deepStrictEqual(parsed.hunks[1].lines, ['     step();', '+    ', '+    finish();']);
+        assert.deepStrictEqual(parseDiff('').hunks, []);
+    });
+
+    it('keeps the file header and only the selected hunks', () => {
+        const diff = selectHunks(DIFF, [1]);
+
+        assert.ok(diff.startsWith('diff --git a/app.ts b/app.ts\nindex 1111111..2222222 100644\n--- a/app.ts\n+++ b/app.ts\n@@ -40,2'));
+        assert.ok(!diff.includes('const b'));
+        assert.strictEqual(selectHunks(DIFF, [0, 1]), DIFF);
+    });
+
+    it('previews the first meaningful changed line', () => {
+        const [first, second] = parseDiff(DIFF).hunks;
+
+        assert.strictEqual(previewHunk(first), '- const b = 2;');
+        assert.strictEqual(previewHunk(second), '+ finish();');
+    });
+});
@@ -0,0 +1,50 @@
+// Unified diff одного файла, разобранный на заголовок (diff --git, index, ---/+++) и hunks
+export interface ParsedDiff {
+    header: string[];
+    hunks: DiffHunk[];
+}
+
+export interface DiffHunk {
+    header: string; // Строка @@ -a,b +c,d @@ (после нее git может дописать имя функции)
+    lines: string[];
+}
+
+export function parseDiff(diff: string): ParsedDiff {
+    const parsed: ParsedDiff = { header: [], hunks: [] };
+    if (!diff) {
+        return parsed;
+    }
+
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('@@')) {
+            parsed.hunks.push({ header: line, lines: [] });
+        } else if (parsed.hunks.length > 0) {
+            parsed.hunks[parsed.hunks.length - 1].lines.push(line);
+        } else {
+            parsed.header.push(line);
+        }
+    }
+    return parsed;
+}
+
+export function formatHunk(hunk: DiffHunk): string {
+    return [hunk.header, ...hunk.lines].join('\n');
+}
+
+/**
+ * Diff, в котором оставлены только hunks с указанными индексами. Заголовки hunks
+ * не пересчитываем: номера строк в них по-прежнему указывают на места в файле.
+ */
+export function selectHunks(diff: string, indexes: number[]): string {
+    const parsed = parseDiff(diff);
+    const selected = parsed.hunks.filter((_, i) => indexes.includes(i));
+    return [...parsed.header, ...selected.map(formatHunk)].join('\n');
+}
+
+/**
+ * Первая добавленная или удаленная строка hunk — для подписи в дереве.
+ */
+export function previewHunk(hunk: DiffHunk): string {
+    const changed = hunk.lines.find(line => (line.startsWith('+') || line.startsWith('-')) && line.trim().length > 1);
+    return changed ? `${changed.charAt(0)} ${changed.substring(1).trim()}` : '';
+}
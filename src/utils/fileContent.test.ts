@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { classifyContent, formatSize, isBinaryDiff, truncateContent } from './fileContent';
+
+describe('file content', () => {
+    const limits = { maxBytes: 1000, keepLines: 3 };
+
+    it('classifies binary, generated, large and ordinary text', () => {
+        assert.strictEqual(classifyContent('PNG\0\x01\x02'), 'binary');
+        assert.strictEqual(classifyContent('var a=1;'.repeat(1000)), 'generated');
+        assert.strictEqual(classifyContent('line\n'.repeat(300), limits), 'large');
+        assert.strictEqual(classifyContent('line\n'.repeat(300)), 'text', 'Without limits nothing is large');
+        assert.strictEqual(classifyContent('const a = 1;\n', limits), 'text');
+    });
+
+    it('recognises binary diffs', () => {
+        assert.ok(isBinaryDiff('diff --git a/logo.png b/logo.png\nindex 1..2 100644\nBinary files a/logo.png and b/logo.png differ'));
+        assert.ok(!isBinaryDiff('@@ -1 +1 @@\n-Binary files are fine\n+text'));
+    });
+
+    it('keeps the head and tail of large text with an explicit marker', () => {
+        const content = Array.from({ length: 300 }, (_, i) => `line ${i + 1}`).join('\n');
+
+        assert.strictEqual(
+            truncateContent(content, limits),
+            'line 1\nline 2\nline 3\n[... 294 lines truncated ...]\nline 298\nline 299\nline 300'
+        );
+        assert.strictEqual(truncateContent('short', limits), 'short');
+    });
+
+    it('cuts long lines by characters', () => {
+        const truncated = truncateContent('x'.repeat(5000), limits);
+
+        assert.ok(truncated.includes('[... 4500 characters truncated ...]'));
+        assert.ok(Buffer.byteLength(truncated) < 1000);
+    });
+
+    it('formats sizes', () => {
+        assert.strictEqual(formatSize(512), '512 B');
+        assert.strictEqual(formatSize(2048), '2.0 KB');
+        assert.strictEqual(formatSize(3 * 1024 * 1024), '3.0 MB');
+    });
+});
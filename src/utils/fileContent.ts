@@ -0,0 +1,80 @@
+import { ContentLimits } from '../types';
+
+/**
+ * Что делать с содержимым файла в промпте: text — как есть, binary — только отметка о файле,
+ * generated — минифицированный или сгенерированный код без содержимого, large — обрезать.
+ */
+export type ContentKind = 'text' | 'binary' | 'generated' | 'large';
+
+export const DEFAULT_CONTENT_LIMITS: ContentLimits = { maxBytes: 256 * 1024, keepLines: 100 };
+
+// Как и git, ищем NUL только в начале файла
+const BINARY_SNIFF_LENGTH = 8000;
+// Минифицированный код — это немного очень длинных строк
+const GENERATED_MIN_LENGTH = 5000;
+const GENERATED_AVERAGE_LINE = 500;
+
+export function isBinaryContent(content: string | Buffer): boolean {
+    if (typeof content === 'string') {
+        return content.slice(0, BINARY_SNIFF_LENGTH).includes('\0');
+    }
+    return content.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
+
+export function isGeneratedContent(content: string): boolean {
+    if (content.length < GENERATED_MIN_LENGTH) {
+        return false;
+    }
+    const lines = content.split('\n').length;
+    return content.length / lines > GENERATED_AVERAGE_LINE;
+}
+
+/**
+ * Без limits файл не бывает большим: проверяются только binary и generated.
+ */
+export function classifyContent(content: string, limits?: ContentLimits): ContentKind {
+    if (isBinaryContent(content)) return 'binary';
+    if (isGeneratedContent(content)) return 'generated';
+    if (limits && Buffer.byteLength(content) > limits.maxBytes) return 'large';
+    return 'text';
+}
+
+// git сообщает о бинарном файле вместо diff
+export function isBinaryDiff(diff: string): boolean {
+    return /^Binary files .* differ$/m.test(diff) || /^GIT binary patch$/m.test(diff);
+}
+
+/**
+ * Начало и конец текста с явной отметкой о пропуске посередине. Если и так получается больше
+ * maxBytes (несколько очень длинных строк), текст обрезается по символам.
+ */
+export function truncateContent(content: string, limits: ContentLimits): string {
+    if (Buffer.byteLength(content) <= limits.maxBytes) {
+        return content;
+    }
+
+    // Перевод строки в конце файла не считаем отдельной пустой строкой
+    const trailingNewline = content.endsWith('\n') ? '\n' : '';
+    const lines = (trailingNewline ? content.slice(0, -1) : content).split('\n');
+    if (lines.length > limits.keepLines * 2) {
+        const omitted = lines.length - limits.keepLines * 2;
+        const truncated = [
+            ...lines.slice(0, limits.keepLines),
+            `[... ${omitted} lines truncated ...]`,
+            ...lines.slice(lines.length - limits.keepLines)
+        ].join('\n') + trailingNewline;
+        if (Buffer.byteLength(truncated) <= limits.maxBytes) {
+            return truncated;
+        }
+    }
+
+    const keepChars = Math.floor(limits.maxBytes / 4); // С запасом на многобайтовые символы
+    const omitted = content.length - keepChars * 2;
+    return `${content.slice(0, keepChars)}\n[... ${omitted} characters truncated ...]\n${content.slice(content.length - keepChars)}`;
+}
+
+export function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${bytes} B`;
+}
@@ -0,0 +1,65 @@
+import * as path from 'path';
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    '.ts': 'typescript',
+    '.tsx': 'tsx',
+    '.mts': 'typescript',
+    '.cts': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'jsx',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.py': 'python',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.java': 'java',
+    '.kt': 'kotlin',
+    '.kts': 'kotlin',
+    '.scala': 'scala',
+    '.rb': 'ruby',
+    '.php': 'php',
+    '.cs': 'csharp',
+    '.c': 'c',
+    '.h': 'c',
+    '.cpp': 'cpp',
+    '.cc': 'cpp',
+    '.hpp': 'cpp',
+    '.swift': 'swift',
+    '.m': 'objectivec',
+    '.dart': 'dart',
+    '.lua': 'lua',
+    '.sh': 'bash',
+    '.bash': 'bash',
+    '.zsh': 'bash',
+    '.ps1': 'powershell',
+    '.sql': 'sql',
+    '.html': 'html',
+    '.vue': 'vue',
+    '.svelte': 'svelte',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.less': 'less',
+    '.json': 'json',
+    '.yml': 'yaml',
+    '.yaml': 'yaml',
+    '.toml': 'toml',
+    '.xml': 'xml',
+    '.md': 'markdown',
+    '.proto': 'protobuf',
+    '.graphql': 'graphql',
+    '.tf': 'hcl'
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+    'Dockerfile': 'dockerfile',
+    'Makefile': 'makefile'
+};
+
+/**
+ * Идентификатор языка по имени файла (в стиле меток markdown code fence).
+ * Возвращает undefined, если язык неизвестен.
+ */
+export function getLanguageId(filePath: string): string | undefined {
+    const fileName = path.posix.basename(filePath.replace(/\\/g, '/'));
+    return LANGUAGE_BY_FILENAME[fileName] ?? LANGUAGE_BY_EXTENSION[path.extname(fileName).toLowerCase()];
+}
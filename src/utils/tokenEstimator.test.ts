@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TokenEstimator, countTokens, formatTokens } from './tokenEstimator';
+
+describe('token estimator', function () {
+    // Первое обращение к словарю разбирает его целиком, это заметно дольше таймаута mocha по умолчанию
+    this.timeout(20000);
+
+    let tmpDir: string;
+
+    before(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-review-tokens-'));
+    });
+
+    after(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('counts tokens with the bundled BPE vocabularies', () => {
+        assert.strictEqual(countTokens('hello world', 'gpt-4o'), 2);
+        assert.strictEqual(countTokens('hello world', 'gpt-4'), 2);
+        assert.strictEqual(countTokens('hello world', 'approximate'), 3);
+        assert.strictEqual(countTokens('', 'gpt-4o'), 0);
+    });
+
+    it('treats special token markers as plain text', () => {
+        assert.ok(countTokens('const eot = "<|endoftext|>";', 'gpt-4') > 1);
+    });
+
+    it('counts non-Latin text differently from the 4 chars heuristic', () => {
+        const comment = '// Берем контент из sourceBranch, так как ревьюим его состояние';
+        assert.notStrictEqual(countTokens(comment, 'gpt-4'), countTokens(comment, 'approximate'));
+    });
+
+    it('recounts a file after its content changes', async () => {
+        const filePath = path.join(tmpDir, 'a.ts');
+        const estimator = new TokenEstimator('gpt-4o');
+
+        fs.writeFileSync(filePath, 'const a = 1;');
+        const before = await estimator.estimateFromFile(filePath);
+
+        fs.writeFileSync(filePath, 'const a = 1;\nconst b = 2;\nexport { a, b };\n');
+        const after = await estimator.estimateFromFile(filePath);
+
+        assert.ok(after > before);
+    });
+
+    it('recounts with the new model after setModel', async () => {
+        const filePath = path.join(tmpDir, 'b.ts');
+        fs.writeFileSync(filePath, 'x'.repeat(400));
+        const estimator = new TokenEstimator('approximate');
+
+        assert.strictEqual(await estimator.estimateFromFile(filePath), 100);
+        assert.ok(estimator.setModel('gpt-4'));
+        assert.ok(!estimator.setModel('gpt-4'));
+        assert.notStrictEqual(await estimator.estimateFromFile(filePath), 100);
+    });
+
+    it('counts only what the prompt keeps of binary and large files', async () => {
+        const binaryPath = path.join(tmpDir, 'logo.png');
+        const largePath = path.join(tmpDir, 'big.txt');
+        fs.writeFileSync(binaryPath, Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02]));
+        fs.writeFileSync(largePath, Array.from({ length: 500 }, (_, i) => `row ${i}`).join('\n'));
+        const estimator = new TokenEstimator('approximate');
+
+        assert.strictEqual(await estimator.estimateFromFile(binaryPath), 0);
+        assert.strictEqual(estimator.getKind(binaryPath), 'binary');
+
+        const full = await estimator.estimateFromFile(largePath);
+        assert.strictEqual(estimator.getKind(largePath), 'text');
+        assert.ok(estimator.setContentLimits({ maxBytes: 1024, keepLines: 2 }));
+        assert.ok(await estimator.estimateFromFile(largePath) < full);
+        assert.strictEqual(estimator.getKind(largePath), 'large');
+    });
+
+    it('uses the fallback when the file is missing', async () => {
+        const estimator = new TokenEstimator('gpt-4o');
+        const tokens = await estimator.estimateFromFile(path.join(tmpDir, 'missing.ts'), async () => 'hello world');
+        assert.strictEqual(tokens, 2);
+    });
+
+    it('formats large counts', () => {
+        assert.strictEqual(formatTokens(950), '950');
+        assert.strictEqual(formatTokens(1000), '1K');
+        assert.strictEqual(formatTokens(12345), '12.3K');
+    });
+});
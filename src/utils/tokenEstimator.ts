@@ -1,16 +1,112 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { ContentLimits, TokenizerModel } from '../types';
+import { ContentKind, classifyContent, isBinaryContent, truncateContent } from './fileContent';
+
+export const DEFAULT_TOKENIZER_MODEL: TokenizerModel = 'gpt-4o';
+
+const ENCODING_BY_MODEL: Record<Exclude<TokenizerModel, 'approximate'>, TiktokenEncoding> = {
+    'gpt-4o': 'o200k_base',
+    'gpt-4': 'cl100k_base'
+};
+
+// Словари BPE встроены в пакет (работают офлайн), но разбираются долго: создаем кодировщик
+// при первом обращении и переиспользуем между всеми экземплярами TokenEstimator
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+    let encoder = encoders.get(encoding);
+    if (!encoder) {
+        encoder = getEncoding(encoding);
+        encoders.set(encoding, encoder);
+    }
+    return encoder;
+}
+
+/**
+ * Количество токенов текста для выбранной модели.
+ */
+export function countTokens(text: string, model: TokenizerModel = DEFAULT_TOKENIZER_MODEL): number {
+    if (!text) return 0;
+    if (model === 'approximate' || !ENCODING_BY_MODEL[model]) {
+        // Rough heuristic: 1 token ~= 4 chars.
+        return Math.max(1, Math.ceil(text.length / 4));
+    }
+    // Спецтокены вроде <|endoftext|> в коде считаем обычным текстом, а не ошибкой
+    return getEncoder(ENCODING_BY_MODEL[model]).encode(text, [], []).length;
+}
+
+interface FileFingerprint {
+    mtimeMs: number;
+    size: number;
+    hash: string; // Хеш текста, который попадет в промпт
+}
 
 export class TokenEstimator {
+    // Ключ — модель и хеш содержимого, поэтому после правки файла счетчик не устаревает
     private cache = new Map<string, number>();
+    // Хеш последнего прочитанного содержимого файла, чтобы не перечитывать неизмененные файлы
+    private fingerprints = new Map<string, FileFingerprint>();
+    private kinds = new Map<string, ContentKind>();
+    private contentLimits?: ContentLimits;
+
+    constructor(private model: TokenizerModel = DEFAULT_TOKENIZER_MODEL) {}
+
+    public getModel(): TokenizerModel {
+        return this.model;
+    }
 
+    /**
+     * Возвращает true, если модель изменилась и счетчики нужно пересчитать.
+     */
+    public setModel(model: TokenizerModel): boolean {
+        if (model === this.model) {
+            return false;
+        }
+        this.model = model;
+        return true;
+    }
+
+    /**
+     * Лимиты, по которым файлы обрезаются в промпте; возвращает true, если они изменились.
+     */
+    public setContentLimits(limits: ContentLimits | undefined): boolean {
+        if (JSON.stringify(limits) === JSON.stringify(this.contentLimits)) {
+            return false;
+        }
+        this.contentLimits = limits;
+        this.fingerprints.clear();
+        return true;
+    }
+
+    // Вид содержимого файла по последней оценке: бинарный, сгенерированный, большой или обычный текст
+    public getKind(fsPath: string): ContentKind | undefined {
+        return this.kinds.get(fsPath);
+    }
+
+    /**
+     * Токены той части файла, что попадет в промпт: бинарные и сгенерированные файлы
+     * идут без содержимого (0 токенов), большие — только начало и конец.
+     */
     async estimateFromFile(fsPath: string, fallback?: () => Promise<string>): Promise<number> {
-        if (this.cache.has(fsPath)) {
-            return this.cache.get(fsPath)!;
+        const stat = await fs.stat(fsPath).catch(() => undefined);
+        const known = this.fingerprints.get(fsPath);
+        if (stat && known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+            const cached = this.cache.get(this.cacheKey(known.hash));
+            if (cached !== undefined) {
+                return cached;
+            }
         }
 
         let content = '';
+        let fromDisk = false;
+        let binary = false;
         try {
-            content = await fs.readFile(fsPath, 'utf8');
+            const buffer = await fs.readFile(fsPath);
+            binary = isBinaryContent(buffer);
+            content = binary ? '' : buffer.toString('utf8');
+            fromDisk = true;
         } catch {
             if (fallback) {
                 try {
@@ -21,15 +117,41 @@ export class TokenEstimator {
             }
         }
 
-        const tokens = this.estimateTokens(content);
-        this.cache.set(fsPath, tokens);
-        return tokens;
+        const kind = binary ? 'binary' : classifyContent(content, this.contentLimits);
+        this.kinds.set(fsPath, kind);
+        if (kind === 'binary' || kind === 'generated') {
+            content = '';
+        } else if (kind === 'large') {
+            content = truncateContent(content, this.contentLimits!);
+        }
+
+        const hash = this.hash(content);
+        if (stat && fromDisk) {
+            this.fingerprints.set(fsPath, { mtimeMs: stat.mtimeMs, size: stat.size, hash });
+        }
+        return this.estimateByHash(hash, content);
     }
 
     estimateTokens(text: string): number {
-        if (!text) return 0;
-        // Rough heuristic: 1 token ~= 4 chars.
-        return Math.max(1, Math.ceil(text.length / 4));
+        return text ? this.estimateByHash(this.hash(text), text) : 0;
+    }
+
+    private estimateByHash(hash: string, content: string): number {
+        const key = this.cacheKey(hash);
+        let tokens = this.cache.get(key);
+        if (tokens === undefined) {
+            tokens = countTokens(content, this.model);
+            this.cache.set(key, tokens);
+        }
+        return tokens;
+    }
+
+    private cacheKey(hash: string): string {
+        return `${this.model}:${hash}`;
+    }
+
+    private hash(content: string): string {
+        return crypto.createHash('sha1').update(content).digest('hex');
     }
 }
 